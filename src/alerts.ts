@@ -0,0 +1,322 @@
+import { randomUUID } from 'node:crypto';
+import { advanceWindowTo } from './store.js';
+import type { Store } from './store.js';
+import type { EventType } from './types.js';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+import { aggregateBuckets } from './metrics.js';
+import type { Aggregation, MetricsFilters } from './metrics.js';
+
+// What a rule measures over its window
+export type AlertMetric = 'count' | 'events_per_sec' | 'unique_users' | 'unknown' | 'unknown_ratio';
+export const ALERT_METRICS: AlertMetric[] = ['count', 'events_per_sec', 'unique_users', 'unknown', 'unknown_ratio'];
+
+export type AlertOperator = '<' | '<=' | '>' | '>=';
+export const ALERT_OPERATORS: AlertOperator[] = ['<', '<=', '>', '>='];
+
+// inactive: condition false. pending: condition true for less than for_sec. firing: condition held for for_sec.
+// resolved: condition false again after firing
+export type AlertState = 'inactive' | 'pending' | 'firing' | 'resolved';
+
+// Rule definition as sent to POST /alerts/rules, e.g.
+// { name: 'Low EU purchases', metric: 'count', window_sec: 60, filters: { type: ['purchase'], region: ['eu'] }, operator: '<', threshold: 5 }
+export type AlertRuleInput = {
+  name: string;
+  metric: AlertMetric;
+  window_sec: number;
+  filters?: Record<string, string[]>; // same filters as GET /metrics: type, user_id or any reference attribute, values OR'ed
+  operator: AlertOperator;
+  threshold: number; // unknown_ratio is a fraction, e.g. 0.2 for 20%
+  for_sec?: number; // how long the condition must hold before firing, 0 fires on the first evaluation
+}
+
+export type AlertRule = Required<AlertRuleInput> & {
+  id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AlertStatus = {
+  rule_id: string;
+  rule_name: string;
+  state: AlertState;
+  value: number | null; // metric at the last evaluation, null before the first
+  since: string | null; // when the rule entered its state, null while never evaluated
+  evaluated_at: string | null;
+}
+
+// One state change of one rule, recorded in the history and sent to the webhook when a rule fires or resolves
+export type AlertTransition = {
+  rule_id: string;
+  rule_name: string;
+  from: AlertState;
+  to: AlertState;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  value: number;
+  at: string;
+}
+
+export type AlertNotifier = (transition: AlertTransition) => Promise<void>;
+
+// Transitions worth waking someone up for
+const NOTIFIED_STATES = new Set<AlertState>(['firing', 'resolved']);
+
+/**
+ * AlertManager holds threshold rules over the ring buffer, evaluates them every second and tracks each rule's state.
+ * State changes are kept in a bounded history, and changes to firing or resolved are posted to the configured webhook.
+ * Rules and states live in memory only.
+ * @constructor takes the store to evaluate against and the notifier, posting to ALERT_WEBHOOK_URL by default
+ * @method createRule / updateRule / deleteRule / getRule / listRules: rule CRUD
+ * @method getStatuses: returns every rule's current state
+ * @method getHistory: returns state changes, newest first
+ * @method evaluate: evaluates every rule as of a second
+ * @method start / stop: evaluate on every second tick while there are rules
+ */
+export class AlertManager {
+  private rules: Map<string, AlertRule> = new Map();
+  private statuses: Map<string, AlertStatus> = new Map();
+  private history: AlertTransition[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private started: boolean = false;
+
+  constructor(
+    private store: Store,
+    private config: Config = DEFAULT_CONFIG,
+    private notify: AlertNotifier = config.alertWebhookUrl ? postToWebhook(config.alertWebhookUrl) : async () => {},
+  ) {}
+
+  createRule = (input: AlertRuleInput): AlertRule => {
+    const now = new Date().toISOString();
+    const rule = toRule(input, randomUUID(), now, now);
+    this.rules.set(rule.id, rule);
+    this.statuses.set(rule.id, { rule_id: rule.id, rule_name: rule.name, state: 'inactive', value: null, since: null, evaluated_at: null });
+    this.schedule();
+    return rule;
+  }
+
+  /**
+   * Replaces a rule's definition. Its state carries over and is re-evaluated against the new definition on the next tick
+   * @returns The updated rule, or undefined if there is no rule with this ID
+   */
+  updateRule = (id: string, input: AlertRuleInput): AlertRule | undefined => {
+    const existing = this.rules.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const rule = toRule(input, id, existing.created_at, new Date().toISOString());
+    this.rules.set(id, rule);
+    (this.statuses.get(id) as AlertStatus).rule_name = rule.name;
+    return rule;
+  }
+
+  deleteRule = (id: string): boolean => {
+    this.statuses.delete(id);
+    const deleted = this.rules.delete(id);
+    if (!this.rules.size) {
+      this.clearTimer();
+    }
+    return deleted;
+  }
+
+  getRule = (id: string): AlertRule | undefined => {
+    return this.rules.get(id);
+  }
+
+  listRules = (): AlertRule[] => {
+    return [...this.rules.values()];
+  }
+
+  getStatuses = (): AlertStatus[] => {
+    return [...this.statuses.values()];
+  }
+
+  getHistory = (): AlertTransition[] => {
+    return [...this.history].reverse();
+  }
+
+  /**
+   * Evaluates every rule over the window ending at nowSec, moving rules between states and notifying on firing and resolved
+   */
+  evaluate = (nowSec: number): void => {
+    advanceWindowTo(this.store, nowSec);
+    const at = new Date(nowSec * 1000).toISOString();
+
+    for (const rule of this.rules.values()) {
+      const status = this.statuses.get(rule.id) as AlertStatus;
+      const value = this.measure(rule, nowSec);
+      const next = nextState(status, matches(value, rule.operator, rule.threshold), rule.for_sec, nowSec);
+
+      status.value = value;
+      status.evaluated_at = at;
+      if (next !== status.state) {
+        this.transition(rule, status, next, value, at);
+      }
+      // Since is only unset before the first evaluation, an inactive rule has been inactive since then
+      status.since ??= at;
+    }
+  }
+
+  start = (): void => {
+    this.started = true;
+    this.schedule();
+  }
+
+  stop = (): void => {
+    this.started = false;
+    this.clearTimer();
+  }
+
+  // Ticks just after each wall clock second, like the live metrics stream, and only once started and while there are rules
+  private schedule = (): void => {
+    if (this.timer || !this.started || !this.rules.size) {
+      return;
+    }
+    this.timer = setTimeout(this.tick, 1000 - (Date.now() % 1000));
+    this.timer.unref();
+  }
+
+  // A failed evaluation is logged and retried on the next tick, a throw here would end the process
+  private tick = (): void => {
+    this.timer = null;
+    try {
+      this.evaluate(Math.floor(Date.now() / 1000));
+    } catch (error) {
+      console.error(`Failed to evaluate alert rules: ${(error as Error).message}`);
+    } finally {
+      this.schedule();
+    }
+  }
+
+  private clearTimer = (): void => {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private measure = (rule: AlertRule, nowSec: number): number => {
+    const aggregation = aggregateBuckets(this.store.getLookbackWindow(rule.window_sec, nowSec), this.store.getReferenceTable(), {
+      groupBy: [],
+      attributeValues: new Map(),
+      filters: toMetricsFilters(rule.filters),
+      exact: true,
+    });
+    return metricValue(rule, aggregation);
+  }
+
+  private transition = (rule: AlertRule, status: AlertStatus, to: AlertState, value: number, at: string): void => {
+    const transition: AlertTransition = {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      from: status.state,
+      to,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      value,
+      at,
+    };
+    status.state = to;
+    status.since = at;
+
+    this.history.push(transition);
+    if (this.history.length > this.config.alertHistoryLimit) {
+      this.history.shift();
+    }
+
+    if (NOTIFIED_STATES.has(to)) {
+      // Delivery failures are logged by the notifier and never hold up evaluation
+      this.notify(transition).catch(error => console.error(`Alert notification for ${rule.id} failed: ${(error as Error).message}`));
+    }
+  }
+}
+
+const toRule = (input: AlertRuleInput, id: string, createdAt: string, updatedAt: string): AlertRule => ({
+  id,
+  name: input.name,
+  metric: input.metric,
+  window_sec: input.window_sec,
+  filters: input.filters ?? {},
+  operator: input.operator,
+  threshold: input.threshold,
+  for_sec: input.for_sec ?? 0,
+  created_at: createdAt,
+  updated_at: updatedAt,
+});
+
+const toMetricsFilters = (filters: Record<string, string[]>): MetricsFilters => {
+  const metricsFilters: MetricsFilters = {};
+  for (const [field, values] of Object.entries(filters)) {
+    if (field === 'type') {
+      metricsFilters.types = new Set(values as EventType[]);
+    } else if (field === 'user_id') {
+      metricsFilters.userIds = new Set(values);
+    } else {
+      metricsFilters.attributes ??= new Map();
+      metricsFilters.attributes.set(field, new Set(values));
+    }
+  }
+  return metricsFilters;
+}
+
+const metricValue = (rule: AlertRule, aggregation: Aggregation): number => {
+  switch (rule.metric) {
+    case 'count':
+      return aggregation.totalEvents;
+    case 'events_per_sec':
+      return aggregation.totalEvents / rule.window_sec;
+    case 'unique_users':
+      return aggregation.uniqueUserCount;
+    case 'unknown':
+      return aggregation.unknown;
+    case 'unknown_ratio':
+      return aggregation.totalEvents ? aggregation.unknown / aggregation.totalEvents : 0;
+  }
+}
+
+const matches = (value: number, operator: AlertOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+  }
+}
+
+const nextState = (status: AlertStatus, conditionMet: boolean, forSec: number, nowSec: number): AlertState => {
+  if (!conditionMet) {
+    if (status.state === 'firing') {
+      return 'resolved';
+    }
+    return status.state === 'pending' ? 'inactive' : status.state;
+  }
+
+  if (status.state === 'firing') {
+    return 'firing';
+  }
+  if (status.state === 'pending') {
+    const pendingSec = nowSec - Date.parse(status.since as string) / 1000;
+    return pendingSec >= forSec ? 'firing' : 'pending';
+  }
+  return forSec === 0 ? 'firing' : 'pending';
+}
+
+// Posts each transition as JSON, giving up after 5 seconds
+const postToWebhook = (url: string): AlertNotifier => async (transition) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(transition),
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new Error(`webhook responded with ${response.status}`);
+  }
+}
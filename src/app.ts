@@ -1,30 +1,94 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import { InMemoryStore } from './storage.js';
-import { Controllers } from './controllers.js'
+import { SqliteStore } from './sqlite-storage.js';
+import type { Store } from './store.js';
+import { FilePersistence } from './persistence.js';
+import { loadConfig } from './config.js';
+import { TenantRegistry, tenantDataDir, tenantSqlitePath } from './tenants.js';
+import { Authenticator } from './auth.js';
+import { RequestLimiter } from './limits.js';
+import { ServiceMetrics } from './instrumentation.js';
+import type { Role } from './types.js';
 
 // Load environment variables
 dotenv.config();
 
+// Throws on invalid settings so a misconfigured deployment fails at boot
+const config = loadConfig();
+
+// Every tenant gets a store of the configured backend, opened on its first request
+const openStore = (tenantId: string): Store => {
+  if (config.storageBackend === 'sqlite') {
+    return new SqliteStore({ ...config, sqlitePath: tenantSqlitePath(config.sqlitePath, tenantId) });
+  }
+
+  const store = new InMemoryStore(config);
+  // Optional file-backed mode of the memory backend: recover state from DATA_DIR, then log every accepted write and snapshot periodically
+  if (config.dataDir) {
+    const dataDir = tenantDataDir(config.dataDir, tenantId);
+    const persistence = new FilePersistence(dataDir);
+    const replayed = persistence.recover(store);
+    store.attachJournal(persistence);
+    setInterval(() => persistence.snapshot(store), config.snapshotIntervalSec * 1000).unref();
+    console.log(`Recovered store from ${dataDir} (${replayed} journal entries replayed)`);
+  }
+  return store;
+};
+
 const app = express();
-const store = new InMemoryStore();
-const controllers = new Controllers(store)
+const auth = new Authenticator(config);
+const limiter = new RequestLimiter(config);
+const metrics = new ServiceMetrics();
+const tenants = new TenantRegistry(openStore, config, metrics);
+
+// Times every request, including those rejected by the middleware below
+app.use(metrics.observeRequests);
 
-// Middleware, needed for parsing JSON and URL-encoded bodies
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+// Ingest requests over the concurrency limit are shed before their bodies are read
+app.post('/events', limiter.limitIngestConcurrency);
+
+// Parses JSON and URL-encoded bodies, answering bodies over MAX_BODY_BYTES with 413
+const parseBody = [
+  express.json({ limit: config.maxBodyBytes }),
+  express.urlencoded({ extended: true, limit: config.maxBodyBytes }),
+  limiter.handleBodyTooLarge,
+];
+
+// Authenticates a request, checks it has one of the roles and rate limits its client, and only then reads its body,
+// so rejected requests cost no parsing. Requests answered 401 are charged to their IP
+const guard = (...roles: Role[]) => [limiter.limitUnauthorized(auth.authenticates), auth.require(...roles), limiter.rateLimit, ...parseBody];
+
+// Liveness check for load balancers, open and answered without resolving a tenant so it cannot create one
+app.get('/healthz', (_req, res) => {
+  res.status(200).json({ ok: true });
+});
 
-// Routes
-app.post('/events', controllers.ingestEvents);
-app.put('/reference/users', controllers.updateReference);
-app.get('/metrics', controllers.getMetrics);
-app.get('/healthz', controllers.healthCheck);
+// Routes, each requiring a role and scoped to the requesting tenant
+app.post('/events', guard('ingest'), tenants.handle(controllers => controllers.ingestEvents));
+app.get('/reference/users', guard('reference-admin', 'metrics-read'), tenants.handle(controllers => controllers.getReference));
+app.put('/reference/users', guard('reference-admin'), tenants.handle(controllers => controllers.updateReference));
+app.patch('/reference/users', guard('reference-admin'), tenants.handle(controllers => controllers.patchReference));
+app.get('/metrics', guard('metrics-read'), tenants.handle(controllers => controllers.getMetrics));
+app.get('/metrics/timeseries', guard('metrics-read'), tenants.handle(controllers => controllers.getTimeseries));
+app.get('/metrics/stream', guard('metrics-read'), tenants.handle(controllers => controllers.streamMetrics));
+app.post('/alerts/rules', guard('alerts-admin'), tenants.handle(controllers => controllers.createAlertRule));
+app.get('/alerts/rules', guard('alerts-admin', 'metrics-read'), tenants.handle(controllers => controllers.listAlertRules));
+app.get('/alerts/rules/:id', guard('alerts-admin', 'metrics-read'), tenants.handle(controllers => controllers.getAlertRule));
+app.put('/alerts/rules/:id', guard('alerts-admin'), tenants.handle(controllers => controllers.updateAlertRule));
+app.delete('/alerts/rules/:id', guard('alerts-admin'), tenants.handle(controllers => controllers.deleteAlertRule));
+app.get('/alerts', guard('alerts-admin', 'metrics-read'), tenants.handle(controllers => controllers.getAlerts));
+app.get('/status', guard('metrics-read'), tenants.handle(controllers => controllers.healthCheck));
+app.get('/admin/tenants', guard('admin'), tenants.listTenants);
+app.get('/internal/metrics', guard('admin'), metrics.handleScrape(tenants.getStores));
 
 // Start server
-const PORT = process.env.PORT ?? 3000;
-app.listen(PORT, () => {
-  console.log(`Server is running on http://localhost:${PORT}`);
-  console.log('InMemoryStorage initialized');
+app.listen(config.port, () => {
+  console.log(`Server is running on http://localhost:${config.port}`);
+  console.log(`${config.storageBackend === 'sqlite' ? 'SqliteStore' : 'InMemoryStore'} backend selected, tenant stores are created on first request`);
+  if (!auth.enabled) {
+    console.warn('Authentication is disabled, set API_KEYS or JWT_SECRET to require credentials');
+  }
 });
 
-export { app, store }; // Export for testing
\ No newline at end of file
+export { app, tenants }; // Export for testing
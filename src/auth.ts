@@ -0,0 +1,180 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+import { AuthenticationError } from './errors.js';
+import type { Role } from './types.js';
+import { ROLES, TENANT_ID, isObject } from './utils.js';
+
+// Who a request was authenticated as, set on res.locals.principal by Authenticator.require
+export type Principal = {
+  subject: string; // JWT sub, or key:<fingerprint> for API keys so keys never show up in logs
+  roles: Role[];
+  tenantId?: string; // tenant the credentials are bound to, from TENANT_API_KEYS or the JWT tenant claim
+}
+
+/**
+ * Authenticator checks the X-Api-Key header against API_KEYS, or an Authorization: Bearer JWT signed with JWT_SECRET (HS256),
+ * and lets a request through only if its credentials carry one of the roles the route requires.
+ * Without API keys or a JWT secret configured, authentication is disabled and every request is let through
+ * @constructor takes the config with API keys, their tenants and the JWT secret
+ * @method require: returns middleware for a route requiring any of the given roles
+ * @method authenticates: returns whether the request carries valid credentials, whatever their roles
+ */
+export class Authenticator {
+  readonly enabled: boolean;
+  private apiKeys: Map<string, Principal> = new Map(); // SHA-256 of API key -> principal, so lookups do not leak keys through timing
+
+  constructor(private config: Config = DEFAULT_CONFIG) {
+    for (const [apiKey, roles] of Object.entries(config.apiKeys)) {
+      const tenantId = config.tenantApiKeys[apiKey];
+      const fingerprint = hashKey(apiKey);
+      this.apiKeys.set(fingerprint, { subject: `key:${fingerprint.slice(0, 12)}`, roles, ...(tenantId && { tenantId }) });
+    }
+    this.enabled = this.apiKeys.size > 0 || config.jwtSecret !== undefined;
+  }
+
+  require = (...roles: Role[]) => (req: Request, res: Response, next: NextFunction): void => {
+    if (!this.enabled) {
+      next();
+      return;
+    }
+
+    let principal: Principal;
+    try {
+      principal = this.authenticate(req);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        respondUnauthorized(res, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    if (!roles.some(role => principal.roles.includes(role))) {
+      respondForbidden(res, `Requires the ${roles.join(' or ')} role`);
+      return;
+    }
+    res.locals.principal = principal;
+    next();
+  }
+
+  authenticates = (req: Request): boolean => {
+    if (!this.enabled) {
+      return true;
+    }
+    try {
+      this.authenticate(req);
+      return true;
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private authenticate = (req: Request): Principal => {
+    const authorization = req.get('Authorization');
+    if (authorization !== undefined) {
+      const [scheme, token, ...rest] = authorization.trim().split(/\s+/);
+      if (scheme?.toLowerCase() !== 'bearer' || !token || rest.length) {
+        throw new AuthenticationError('Authorization header must be "Bearer <token>"');
+      }
+      if (this.config.jwtSecret === undefined) {
+        throw new AuthenticationError('Bearer tokens are not accepted, use an X-Api-Key header');
+      }
+      return principalFromClaims(verifyJwt(token, this.config.jwtSecret, Math.floor(Date.now() / 1000)));
+    }
+
+    const apiKey = req.get('X-Api-Key');
+    if (apiKey !== undefined) {
+      const principal = this.apiKeys.get(hashKey(apiKey));
+      if (!principal) {
+        throw new AuthenticationError('Unknown API key');
+      }
+      return principal;
+    }
+
+    throw new AuthenticationError('Missing credentials: send an X-Api-Key header or an Authorization: Bearer token');
+  }
+}
+
+/**
+ * Returns who the request was authenticated as, undefined if authentication is disabled
+ */
+export const getPrincipal = (res: Response): Principal | undefined => {
+  return res.locals.principal as Principal | undefined;
+}
+
+// 401 and 403 bodies shared by authentication, authorization and tenant resolution
+export const respondUnauthorized = (res: Response, message: string): void => {
+  res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized', message });
+}
+
+export const respondForbidden = (res: Response, message: string): void => {
+  res.status(403).json({ error: 'Forbidden', message });
+}
+
+const hashKey = (apiKey: string): string => {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+// Checks the signature and time claims of an HS256 JWT and returns its claims, @throws AuthenticationError otherwise
+const verifyJwt = (token: string, secret: string, nowSec: number): Record<string, unknown> => {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length) {
+    throw new AuthenticationError('Bearer token is not a JWT');
+  }
+
+  // Only HS256 is accepted, so neither alg: none nor a public key used as an HMAC secret can get through
+  const { alg } = parseSegment(header);
+  if (alg !== 'HS256') {
+    throw new AuthenticationError(`Bearer token must be signed with HS256, got ${typeof alg === 'string' ? alg : 'no algorithm'}`);
+  }
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthenticationError('Bearer token signature is invalid');
+  }
+
+  const claims = parseSegment(payload);
+  if (claims.exp !== undefined && (typeof claims.exp !== 'number' || claims.exp <= nowSec)) {
+    throw new AuthenticationError('Bearer token has expired');
+  }
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || claims.nbf > nowSec)) {
+    throw new AuthenticationError('Bearer token is not valid yet');
+  }
+  return claims;
+}
+
+const parseSegment = (segment: string): Record<string, unknown> => {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (isObject(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // reported below
+  }
+  throw new AuthenticationError('Bearer token is not a JWT');
+}
+
+// Unknown roles are ignored rather than rejected, so tokens can carry roles of other services
+const principalFromClaims = (claims: Record<string, unknown>): Principal => {
+  const { sub, roles, tenant } = claims;
+  if (typeof sub !== 'string' || !sub) {
+    throw new AuthenticationError('Bearer token has no sub claim');
+  }
+  if (!Array.isArray(roles)) {
+    throw new AuthenticationError('Bearer token has no roles claim');
+  }
+  if (tenant !== undefined && (typeof tenant !== 'string' || !TENANT_ID.test(tenant))) {
+    throw new AuthenticationError('Bearer token tenant claim is not a valid tenant ID');
+  }
+  return {
+    subject: sub,
+    roles: ROLES.filter(role => roles.includes(role)),
+    ...(typeof tenant === 'string' && { tenantId: tenant }),
+  };
+}
@@ -0,0 +1,98 @@
+// Receives each serialized metrics payload pushed to a channel
+export type Subscriber = (payload: string) => void;
+
+type Channel = {
+  compute: (nowSec: number) => unknown;
+  subscribers: Set<Subscriber>;
+  payload: string; // latest computation, sent to subscribers as soon as they join
+}
+
+/**
+ * MetricsBroadcaster pushes live metrics to subscribers on every second tick.
+ * Subscribers asking for the same parameters join one channel, whose metrics are computed and serialized once per tick
+ * however many subscribers it has. The tick only runs while there is at least one subscriber.
+ * @constructor takes the callback advancing the store's sliding window to the tick's second
+ * @method subscribe: joins (or opens) the channel for a key and returns the unsubscribe callback
+ * @method getStats: returns the number of channels and subscribers
+ */
+export class MetricsBroadcaster {
+  private channels: Map<string, Channel> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private advance: (nowSec: number) => void) {}
+
+  /**
+   * Joins the channel for a key, opening it with the compute callback if it is the first subscriber.
+   * The subscriber immediately receives the channel's latest metrics, then every tick's
+   * @returns Callback removing the subscriber, closing its channel once empty
+   */
+  subscribe = (key: string, compute: (nowSec: number) => unknown, subscriber: Subscriber): (() => void) => {
+    let channel = this.channels.get(key);
+    if (!channel) {
+      const nowSec = this.nowSec();
+      this.advance(nowSec);
+      channel = { compute, subscribers: new Set(), payload: JSON.stringify(compute(nowSec)) };
+      this.channels.set(key, channel);
+    }
+    channel.subscribers.add(subscriber);
+    subscriber(channel.payload);
+    this.schedule();
+
+    return () => {
+      channel.subscribers.delete(subscriber);
+      if (!channel.subscribers.size) {
+        this.channels.delete(key);
+      }
+      if (!this.channels.size && this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  getStats = (): { channels: number; subscribers: number } => {
+    let subscribers = 0;
+    for (const channel of this.channels.values()) {
+      subscribers += channel.subscribers.size;
+    }
+    return { channels: this.channels.size, subscribers };
+  }
+
+  // Ticks just after each wall clock second, when the sliding window moves
+  private schedule = (): void => {
+    if (this.timer || !this.channels.size) {
+      return;
+    }
+    this.timer = setTimeout(this.tick, 1000 - (Date.now() % 1000));
+    // Subscribers keep their connections open, the tick alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  private tick = (): void => {
+    this.timer = null;
+    try {
+      const nowSec = this.nowSec();
+      this.advance(nowSec);
+
+      for (const [key, channel] of this.channels) {
+        try {
+          channel.payload = JSON.stringify(channel.compute(nowSec));
+        } catch (error) {
+          console.error(`Failed to compute live metrics for ${key}: ${(error as Error).message}`);
+          continue;
+        }
+        for (const subscriber of channel.subscribers) {
+          subscriber(channel.payload);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to advance live metrics: ${(error as Error).message}`);
+    } finally {
+      this.schedule();
+    }
+  }
+
+  private nowSec = (): number => {
+    return Math.floor(Date.now() / 1000);
+  }
+}
@@ -0,0 +1,226 @@
+import { LATENESS_SEC, MAX_CLOCK_SKEW_SEC, MAX_RETENTION_SEC, ROLES, TENANT_ID } from './utils.js';
+import type { Role } from './types.js';
+import { STORAGE_BACKENDS } from './store.js';
+import type { StorageBackend } from './store.js';
+
+export type Config = {
+  port: number;
+  latenessSec: number; // how late an event may arrive relative to server clock
+  maxClockSkewSec: number; // how far in the future an event timestamp may be
+  maxRetentionSec: number; // 1s ring buffer size
+  minuteRollupRetentionSec: number; // 1 minute rollups answer lookbacks beyond the ring buffer
+  hourRollupRetentionSec: number; // 1 hour rollups answer lookbacks beyond the minute rollups, and so set the maximum lookback window
+  uniqueUsersSketch: boolean; // keep a HyperLogLog sketch per bucket for approximate unique users
+  summarizedProperties: string[]; // numeric event properties summarized per user in every bucket, for field=properties.<name>
+  referenceHistoryLimit: number; // previous reference generations kept for event time enrichment, on top of the retention bound
+  alertHistoryLimit: number; // alert state changes kept for GET /alerts
+  alertWebhookUrl?: string; // alert rules that fire or resolve are posted here when set
+  storageBackend: StorageBackend; // memory keeps everything in ring buffers, sqlite keeps events and reference tables in sqlitePath
+  sqlitePath: string; // database file of the sqlite backend
+  dataDir?: string; // enables file-backed persistence of the memory backend when set
+  tenantApiKeys: Record<string, string>; // API key -> tenant ID
+  maxTenants: number; // tenants created on first use, including the default tenant
+  tenantEventsPerSec?: number; // accepted events per second per tenant, unlimited when unset
+  tenantMaxMemoryMb?: number; // estimated memory per tenant beyond which its events are rejected, unlimited when unset
+  apiKeys: Record<string, Role[]>; // API key -> roles. Authentication is enabled when API keys or a JWT secret are set
+  jwtSecret?: string; // HMAC secret of HS256 bearer tokens
+  rateLimitPerSec: number; // requests per second each API key, token subject or IP may sustain
+  rateLimitBurst: number; // requests each client may send at once after being idle
+  maxBatchSize: number; // events per POST /events JSON body
+  maxBodyBytes: number; // size of JSON and URL-encoded request bodies
+  maxConcurrentIngests: number; // POST /events requests in flight across all clients before new ones are shed
+  snapshotIntervalSec: number;
+}
+
+export const DEFAULT_CONFIG: Config = {
+  port: 3000,
+  latenessSec: LATENESS_SEC,
+  maxClockSkewSec: MAX_CLOCK_SKEW_SEC,
+  maxRetentionSec: MAX_RETENTION_SEC,
+  minuteRollupRetentionSec: 6 * 3600,
+  hourRollupRetentionSec: 7 * 24 * 3600,
+  uniqueUsersSketch: true,
+  summarizedProperties: [],
+  referenceHistoryLimit: 100,
+  alertHistoryLimit: 1000,
+  storageBackend: 'memory',
+  sqlitePath: 'data/analytics.sqlite',
+  tenantApiKeys: {},
+  maxTenants: 100,
+  apiKeys: {},
+  rateLimitPerSec: 100,
+  rateLimitBurst: 200,
+  maxBatchSize: 1000,
+  maxBodyBytes: 1024 * 1024,
+  maxConcurrentIngests: 64,
+  snapshotIntervalSec: 60,
+};
+
+/**
+ * Loads and validates the service config from environment variables, falling back to DEFAULT_CONFIG
+ * @throws Error listing every invalid setting, so a misconfigured deployment fails at boot
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): Config => {
+  const errors: string[] = [];
+
+  const readInt = (name: string, fallback: number): number => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+      errors.push(`${name} must be a positive integer, got "${raw}"`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const readBool = (name: string, fallback: boolean): boolean => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    if (raw !== 'true' && raw !== 'false') {
+      errors.push(`${name} must be true or false, got "${raw}"`);
+      return fallback;
+    }
+    return raw === 'true';
+  };
+
+  const readOptionalInt = (name: string): number | undefined => {
+    return env[name] === undefined || env[name] === '' ? undefined : readInt(name, 0);
+  };
+
+  // Comma separated apiKey:tenantId pairs, e.g. k-3f9a:checkout,k-81c2:search
+  const readTenantApiKeys = (name: string): Record<string, string> => {
+    const raw = env[name];
+    const apiKeys: Record<string, string> = {};
+    for (const pair of raw ? raw.split(',') : []) {
+      const [apiKey, tenantId, ...rest] = pair.trim().split(':');
+      if (!apiKey || !tenantId || rest.length || !TENANT_ID.test(tenantId)) {
+        errors.push(`${name} must be comma separated apiKey:tenantId pairs with tenant IDs matching ${TENANT_ID}, got "${pair.trim()}"`);
+        continue;
+      }
+      apiKeys[apiKey] = tenantId;
+    }
+    return apiKeys;
+  };
+
+  // Comma separated apiKey:roles pairs, several roles joined by +, e.g. k-7d2e:ingest,k-c04b:reference-admin+metrics-read
+  const readApiKeys = (name: string): Record<string, Role[]> => {
+    const raw = env[name];
+    const apiKeys: Record<string, Role[]> = {};
+    for (const pair of raw ? raw.split(',') : []) {
+      const [apiKey, roles, ...rest] = pair.trim().split(':');
+      const parsed = roles ? roles.split('+') : [];
+      if (!apiKey || !parsed.length || rest.length || parsed.some(role => !ROLES.includes(role as Role))) {
+        errors.push(`${name} must be comma separated apiKey:roles pairs with roles from ${ROLES.join(', ')} joined by +, got roles "${roles ?? ''}"`);
+        continue;
+      }
+      apiKeys[apiKey] = parsed as Role[];
+    }
+    return apiKeys;
+  };
+
+  // Comma separated names, e.g. load_time_ms,items
+  const readList = (name: string): string[] => {
+    const raw = env[name];
+    return raw ? raw.split(',').map(item => item.trim()).filter(Boolean) : [];
+  };
+
+  const readUrl = (name: string): string | undefined => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      return undefined;
+    }
+    if (!URL.canParse(raw) || !['http:', 'https:'].includes(new URL(raw).protocol)) {
+      errors.push(`${name} must be an http or https URL, got "${raw}"`);
+      return undefined;
+    }
+    return raw;
+  };
+
+  const readChoice = <T extends string>(name: string, choices: readonly T[], fallback: T): T => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    if (!choices.includes(raw as T)) {
+      errors.push(`${name} must be one of ${choices.join(', ')}, got "${raw}"`);
+      return fallback;
+    }
+    return raw as T;
+  };
+
+  const alertWebhookUrl = readUrl('ALERT_WEBHOOK_URL');
+  const tenantEventsPerSec = readOptionalInt('TENANT_EVENTS_PER_SEC');
+  const tenantMaxMemoryMb = readOptionalInt('TENANT_MAX_MEMORY_MB');
+  const jwtSecret = env.JWT_SECRET;
+  const config: Config = {
+    port: readInt('PORT', DEFAULT_CONFIG.port),
+    latenessSec: readInt('LATENESS_SEC', DEFAULT_CONFIG.latenessSec),
+    maxClockSkewSec: readInt('MAX_CLOCK_SKEW_SEC', DEFAULT_CONFIG.maxClockSkewSec),
+    maxRetentionSec: readInt('MAX_RETENTION_SEC', DEFAULT_CONFIG.maxRetentionSec),
+    minuteRollupRetentionSec: readInt('MINUTE_ROLLUP_RETENTION_SEC', DEFAULT_CONFIG.minuteRollupRetentionSec),
+    hourRollupRetentionSec: readInt('HOUR_ROLLUP_RETENTION_SEC', DEFAULT_CONFIG.hourRollupRetentionSec),
+    uniqueUsersSketch: readBool('UNIQUE_USERS_SKETCH', DEFAULT_CONFIG.uniqueUsersSketch),
+    summarizedProperties: readList('SUMMARIZED_PROPERTIES'),
+    referenceHistoryLimit: readInt('REFERENCE_HISTORY_LIMIT', DEFAULT_CONFIG.referenceHistoryLimit),
+    snapshotIntervalSec: readInt('SNAPSHOT_INTERVAL_SEC', DEFAULT_CONFIG.snapshotIntervalSec),
+    alertHistoryLimit: readInt('ALERT_HISTORY_LIMIT', DEFAULT_CONFIG.alertHistoryLimit),
+    storageBackend: readChoice('STORAGE_BACKEND', STORAGE_BACKENDS, DEFAULT_CONFIG.storageBackend),
+    sqlitePath: env.SQLITE_PATH || DEFAULT_CONFIG.sqlitePath,
+    tenantApiKeys: readTenantApiKeys('TENANT_API_KEYS'),
+    maxTenants: readInt('MAX_TENANTS', DEFAULT_CONFIG.maxTenants),
+    ...(tenantEventsPerSec !== undefined && { tenantEventsPerSec }),
+    ...(tenantMaxMemoryMb !== undefined && { tenantMaxMemoryMb }),
+    apiKeys: readApiKeys('API_KEYS'),
+    ...(jwtSecret && { jwtSecret }),
+    rateLimitPerSec: readInt('RATE_LIMIT_PER_SEC', DEFAULT_CONFIG.rateLimitPerSec),
+    rateLimitBurst: readInt('RATE_LIMIT_BURST', DEFAULT_CONFIG.rateLimitBurst),
+    maxBatchSize: readInt('MAX_BATCH_SIZE', DEFAULT_CONFIG.maxBatchSize),
+    maxBodyBytes: readInt('MAX_BODY_BYTES', DEFAULT_CONFIG.maxBodyBytes),
+    maxConcurrentIngests: readInt('MAX_CONCURRENT_INGESTS', DEFAULT_CONFIG.maxConcurrentIngests),
+    ...(alertWebhookUrl && { alertWebhookUrl }),
+    ...(env.DATA_DIR && { dataDir: env.DATA_DIR }),
+  };
+
+  // Every acceptable event timestamp, from the lateness limit to the skew limit, must fit in the ring buffer at once
+  // Strictly, since seconds maxRetentionSec apart share a ring buffer slot
+  if (config.latenessSec + config.maxClockSkewSec >= config.maxRetentionSec) {
+    errors.push(
+      `LATENESS_SEC + MAX_CLOCK_SKEW_SEC (${config.latenessSec + config.maxClockSkewSec}) must be less than MAX_RETENTION_SEC (${config.maxRetentionSec})`,
+    );
+  }
+
+  // Each rollup tier holds whole slots and reaches further back than the finer tier before it
+  if (config.minuteRollupRetentionSec % 60 !== 0 || config.minuteRollupRetentionSec < config.maxRetentionSec) {
+    errors.push(`MINUTE_ROLLUP_RETENTION_SEC must be a multiple of 60 and at least MAX_RETENTION_SEC (${config.maxRetentionSec})`);
+  }
+  if (config.hourRollupRetentionSec % 3600 !== 0 || config.hourRollupRetentionSec < config.minuteRollupRetentionSec) {
+    errors.push(`HOUR_ROLLUP_RETENTION_SEC must be a multiple of 3600 and at least MINUTE_ROLLUP_RETENTION_SEC (${config.minuteRollupRetentionSec})`);
+  }
+
+  // The sqlite backend is durable by itself, the write-ahead log and snapshots only cover the memory backend
+  if (config.dataDir && config.storageBackend !== 'memory') {
+    errors.push(`DATA_DIR is only supported with STORAGE_BACKEND=memory, got "${config.storageBackend}"`);
+  }
+
+  // HS256 secrets shorter than the 256 bit hash can be brute forced from a single token
+  if (config.jwtSecret !== undefined && config.jwtSecret.length < 32) {
+    errors.push(`JWT_SECRET must be at least 32 characters, got ${config.jwtSecret.length}`);
+  }
+
+  // Once authentication is enabled, a tenant's keys are only usable with roles
+  const keysWithoutRoles = Object.entries(config.tenantApiKeys).filter(([apiKey]) => !config.apiKeys[apiKey]);
+  if ((Object.keys(config.apiKeys).length || config.jwtSecret) && keysWithoutRoles.length) {
+    errors.push(`TENANT_API_KEYS has keys without roles in API_KEYS, for tenants ${[...new Set(keysWithoutRoles.map(([, tenantId]) => tenantId))].join(', ')}`);
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid configuration: ${errors.join('; ')}`);
+  }
+  return config;
+}
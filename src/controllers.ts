@@ -1,11 +1,57 @@
+import readline from 'node:readline';
 import type { Request, Response } from 'express';
-import type { InMemoryStore } from './storage.js';
+import { advanceWindowTo } from './store.js';
+import type { Store } from './store.js';
 import type { Event } from './types.js';
-import { normalizeToArray } from './utils.js';
+import {
+  ENRICHMENT_MODES,
+  PROPERTY_FIELD_PREFIX,
+  aggregateBuckets,
+  formatAttributeCounts,
+  formatAttributeFieldStats,
+  formatAttributeValues,
+  formatCrosstab,
+  formatSummary,
+  formatValues,
+  parseField,
+  findUnknownQueryParam,
+  parseFilters,
+  parseGroupBy,
+  parseList,
+  parsePercentiles,
+} from './metrics.js';
+import type { EnrichmentMode, MetricsFilters } from './metrics.js';
+import { EVENT_TYPES, normalizeToArray } from './utils.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { MetricsBroadcaster } from './broadcaster.js';
+import { AlertManager } from './alerts.js';
+import type { AlertRuleInput } from './alerts.js';
+import type { Config } from './config.js';
+import { ReferenceImportError, ValidationError, VersionConflictError } from './errors.js';
+import { REFERENCE_CONTENT_TYPES, importReferenceTable } from './importer.js';
+import { getThrottle } from './limits.js';
+import type { ReferenceFormat } from './importer.js';
+import { validateAlertRule, validateReferencePatch, validateReferenceUpdate, validateTimestamp } from './validation.js';
+import type { ValidationIssue } from './validation.js';
+import type { UserMetadata } from './types.js';
 export class Controllers {
-  constructor(private store: InMemoryStore) {}
+  private broadcaster: MetricsBroadcaster;
+
+  constructor(
+    private store: Store,
+    private config: Config = DEFAULT_CONFIG,
+    private alerts: AlertManager = new AlertManager(store, config),
+  ) {
+    this.broadcaster = new MetricsBroadcaster(nowSec => advanceWindowTo(store, nowSec));
+  }
+
+  ingestEvents = withErrorHandling(async (req: Request, res: Response): Promise<void> => {
+    // Long-lived NDJSON streams are processed line by line as they arrive
+    if (req.is('application/x-ndjson')) {
+      await this.ingestEventStream(req, res);
+      return;
+    }
 
-  ingestEvents = withErrorHandling((req: Request, res: Response): void => {
     const events = req.body;
     if (!events) {
       res.status(400).json({ error: 'Missing events in request body' });
@@ -22,58 +68,109 @@ export class Controllers {
       return;
     }
 
+    // Batches are processed synchronously, so their size bounds how long one request holds the event loop
+    if (eventsArray.length > this.config.maxBatchSize) {
+      res.status(413).json({
+        error: 'Batch too large',
+        message: `Batch of ${eventsArray.length} events exceeds the maximum of ${this.config.maxBatchSize}, split it or stream it as NDJSON`,
+      });
+      return;
+    }
+
     // Process events
     const serverTimeSec = Math.floor(Date.now() / 1000)
-    const results = eventsArray.map((event: Event) => {
-      try {
-        this.store.validateEvent(event, serverTimeSec);
-        this.store.updateRingBuffer(event, serverTimeSec)
-        return {
-          event_id: event.event_id,
-          status: 'success'
-        }
-      } catch (error) {
-        return {
-          event_id: event.event_id ?? 'event_unknown',
-          status: 'error',
-          message: (error as Error).message
-        }
-      }
-    })
-    
+    const results = eventsArray.map((event: Event) => this.ingestEvent(event, serverTimeSec))
+    this.store.flush()
+
     res.status(200).json({ results });
   })
 
-  updateReference = withErrorHandling((req: Request, res: Response): void => {
-    const { user_metadata, ts } = req.body;
+  updateReference = withErrorHandling(async (req: Request, res: Response): Promise<void> => {
+    let { user_metadata, ts } = req.body ?? {};
 
-    if (!user_metadata || typeof user_metadata !== 'object' || !ts) {
-      res.status(400).json({ 
-        error: 'Invalid request body', 
-        message: 'user_metadata must be an object and timestamp must be an ISO datetime string' 
-      });
+    // CSV and NDJSON exports are parsed as they stream in rather than through express.json()
+    const fileType = req.is(Object.keys(REFERENCE_CONTENT_TYPES));
+    if (fileType) {
+      const upload = await readReferenceFile(req, res, fileType);
+      if (!upload) {
+        return;
+      }
+      ({ user_metadata, ts } = upload);
+    } else {
+      const issues = validateReferenceUpdate(req.body);
+      if (issues.length) {
+        rejectInvalidRequest(res, 'Invalid request body', issues);
+        return;
+      }
+    }
+
+    const ifMatch = parseIfMatch(req, res);
+    if (ifMatch === null) {
       return;
     }
   
     try {
-      this.store.updateReferenceTable(user_metadata, ts);
+      this.store.updateReferenceTable(user_metadata, ts, ifMatch === '*' ? undefined : ifMatch);
     } catch (error) {
-      res.status(409).json({
-        error: 'Update rejected',
-        reason: (error as Error).message,
+      rejectReferenceUpdate(res, error as Error);
+      return;
+    }
+    this.store.flush();
+
+    const version = this.store.getReferenceVersion();
+    res.status(200).set('ETag', formatETag(version)).json({message: 'Reference table updated successfully', version});
+  })
+
+  patchReference = withErrorHandling((req: Request, res: Response): void => {
+    const { upsert = {}, delete: deletions = [], version, ts } = req.body ?? {};
+
+    const issues = validateReferencePatch(req.body);
+    if (issues.length) {
+      rejectInvalidRequest(res, 'Invalid request body', issues);
+      return;
+    }
+
+    const ifMatch = parseIfMatch(req, res);
+    if (ifMatch === null) {
+      return;
+    }
+
+    // A patch only makes sense against a known version, taken from If-Match or the body
+    const baseVersion = ifMatch === '*' ? this.store.getReferenceVersion() : ifMatch ?? version;
+    if (baseVersion === undefined) {
+      res.status(428).json({
+        error: 'Precondition required',
+        message: 'PATCH requires an If-Match header or a version in the body',
       });
       return;
     }
 
-    res.status(200).json({message: 'Reference table updated successfully'});
+    try {
+      this.store.patchReferenceTable({ upsert, delete: deletions }, ts, baseVersion);
+    } catch (error) {
+      rejectReferenceUpdate(res, error as Error);
+      return;
+    }
+    this.store.flush();
+
+    const newVersion = this.store.getReferenceVersion();
+    res.status(200).set('ETag', formatETag(newVersion)).json({ message: 'Reference table patched successfully', version: newVersion });
   })
 
-  getMetrics = withErrorHandling((req: Request, res: Response): void => {
-    const { window } = req.query;
-    const windowSec = window? parseInt(window as string) : 300;
+  getReference = withErrorHandling((_req: Request, res: Response): void => {
+    const version = this.store.getReferenceVersion();
+    const timestamp = this.store.getReferenceTimestamp();
 
-    if (isNaN(windowSec) || windowSec <= 0) {
-      res.status(400).json({ error: 'Invalid window parameter' });
+    res.status(200).set('ETag', formatETag(version)).json({
+      version,
+      ts: timestamp ? new Date(timestamp * 1000).toISOString() : null,
+      user_metadata: Object.fromEntries(this.store.getReferenceTable()),
+    });
+  })
+
+  getMetrics = withErrorHandling((req: Request, res: Response): void => {
+    const params = parseMetricsParams(req, res, this.store.getReferenceAttributeValues(), this.config.summarizedProperties);
+    if (!params || !this.checkMetricsWindow(params, res)) {
       return;
     }
 
@@ -82,69 +179,333 @@ export class Controllers {
     const now = Math.floor(Date.now() / 1000);
     this.store.advanceSlidingWindow(now);
 
-    // Get buckets within lookback window and latest reference table
-    const lookbackWindow = this.store.getLookbackWindow(windowSec, now);
+    res.status(200).json(this.computeMetrics(params, now));
+  })
+
+  /**
+   * Streams the same metrics as GET /metrics as Server-Sent Events, pushed on every second tick until the client disconnects.
+   * Clients with the same query parameters share one computation per tick
+   */
+  streamMetrics = withErrorHandling((req: Request, res: Response): void => {
+    const params = parseMetricsParams(req, res, this.store.getReferenceAttributeValues(), this.config.summarizedProperties);
+    if (!params || !this.checkMetricsWindow(params, res)) {
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+    res.write('retry: 1000\n\n');
+
+    const unsubscribe = this.broadcaster.subscribe(metricsParamsKey(params), now => this.computeMetrics(params, now), payload => {
+      // A client that is not keeping up skips ticks rather than buffering them, the next one supersedes them anyway
+      if (!res.writableNeedDrain) {
+        res.write(`event: metrics\ndata: ${payload}\n\n`);
+      }
+    });
+    res.on('close', unsubscribe);
+  })
+
+  getTimeseries = withErrorHandling((req: Request, res: Response): void => {
+    const params = parseMetricsParams(req, res, this.store.getReferenceAttributeValues(), this.config.summarizedProperties);
+    if (!params) {
+      return;
+    }
+    const { windowSec, groupBy, filters, enrichment } = params;
+
+    const { step } = req.query;
+    const stepSec = step ? parseInt(step as string) : 1;
+    if (isNaN(stepSec) || stepSec <= 0 || windowSec % stepSec !== 0) {
+      res.status(400).json({
+        error: 'Invalid step parameter',
+        message: 'step must be a positive number of seconds that evenly divides window',
+      });
+      return;
+    }
+    if (windowSec > this.config.maxRetentionSec) {
+      res.status(400).json({ error: `Window parameter exceeds maximum lookback window of ${this.config.maxRetentionSec}s` });
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    this.store.advanceSlidingWindow(now);
+
     const userReferenceTable = this.store.getReferenceTable();
+    const attributeValues = this.store.getReferenceAttributeValues();
+
+    // Each step is its own lookback window, so wrap-around and stale buckets are handled the same way as GET /metrics.
+    // Steps with no events still produce a zero-filled point.
+    const points = [];
+    for (let stepEnd = now - windowSec + stepSec; stepEnd <= now; stepEnd += stepSec) {
+      const buckets = this.store.getLookbackWindow(stepSec, stepEnd);
+      const aggregation = aggregateBuckets(buckets, userReferenceTable, {
+        groupBy,
+        attributeValues,
+        filters,
+        exact: true,
+        ...(enrichment === 'event_time' && { referenceTableAt: this.store.getReferenceTableAt }),
+      });
 
-    if (!lookbackWindow.length) {
-      res.status(200).json({
-        window_sec: windowSec,
-        events_per_sec: 0,
-        unique_users: 0,
-        unknown: 0,
-        by_plan: { free: 0, pro: 0 },
-        by_region: { us: 0, eu: 0 },
-        message: 'No events found in the specified window' 
+      points.push({
+        start: new Date((stepEnd - stepSec + 1) * 1000).toISOString(),
+        end: new Date((stepEnd + 1) * 1000).toISOString(),
+        count: aggregation.totalEvents,
+        unique_users: aggregation.uniqueUserCount,
+        ...formatAttributeCounts(aggregation.byAttribute),
       });
+    }
+
+    res.status(200).json({
+      window_sec: windowSec,
+      step_sec: stepSec,
+      points,
+    });
+  })
+
+  createAlertRule = withErrorHandling((req: Request, res: Response): void => {
+    const issues = validateAlertRule(req.body, this.config.maxRetentionSec);
+    if (issues.length) {
+      rejectInvalidRequest(res, 'Invalid alert rule', issues);
+      return;
+    }
+    res.status(201).json(this.alerts.createRule(req.body as AlertRuleInput));
+  })
+
+  listAlertRules = (_req: Request, res: Response): void => {
+    res.status(200).json({ rules: this.alerts.listRules() });
+  }
+
+  getAlertRule = (req: Request, res: Response): void => {
+    const rule = this.alerts.getRule(req.params.id as string);
+    if (!rule) {
+      rejectUnknownAlertRule(res, req.params.id as string);
+      return;
+    }
+    res.status(200).json(rule);
+  }
+
+  updateAlertRule = withErrorHandling((req: Request, res: Response): void => {
+    const issues = validateAlertRule(req.body, this.config.maxRetentionSec);
+    if (issues.length) {
+      rejectInvalidRequest(res, 'Invalid alert rule', issues);
+      return;
+    }
+
+    const rule = this.alerts.updateRule(req.params.id as string, req.body as AlertRuleInput);
+    if (!rule) {
+      rejectUnknownAlertRule(res, req.params.id as string);
       return;
     }
+    res.status(200).json(rule);
+  })
+
+  deleteAlertRule = (req: Request, res: Response): void => {
+    if (!this.alerts.deleteRule(req.params.id as string)) {
+      rejectUnknownAlertRule(res, req.params.id as string);
+      return;
+    }
+    res.status(204).end();
+  }
+
+  // Current state of every rule, and state changes newest first
+  getAlerts = (_req: Request, res: Response): void => {
+    res.status(200).json({ alerts: this.alerts.getStatuses(), history: this.alerts.getHistory() });
+  }
+
+  healthCheck = (_req: Request, res: Response): void => {
+    res.status(200).json({ ok: true, dedup: this.store.getDedupStats(), streams: this.broadcaster.getStats() });
+  }
+
+  // Responds with 400 and returns false if the window cannot be answered
+  private checkMetricsWindow = ({ windowSec, enrichment }: MetricsParams, res: Response): boolean => {
+    const maxLookbackSec = this.store.getMaxLookbackSec();
+    if (windowSec > maxLookbackSec) {
+      res.status(400).json({ error: `Window parameter exceeds maximum lookback window of ${maxLookbackSec}s` });
+      return false;
+    }
+    // Rollup slots can span several reference generations, so event time enrichment needs per-second buckets
+    if (enrichment === 'event_time' && windowSec > this.config.maxRetentionSec) {
+      res.status(400).json({ error: `enrichment=event_time is only supported for windows up to ${this.config.maxRetentionSec}s` });
+      return false;
+    }
+    return true;
+  }
+
+  // Aggregates the lookback window ending at now, which the sliding window must already have advanced to
+  private computeMetrics = (params: MetricsParams, now: number) => {
+    const { windowSec, groupBy, crosstab, filters, exact, enrichment, percentiles, field } = params;
+
+    // Get buckets within lookback window, from rollups if it reaches past the ring buffer, and latest reference table
+    const lookbackWindow = this.store.getTieredWindow(windowSec, now);
+    const userReferenceTable = this.store.getReferenceTable();
 
-    const aggregation = {
-      totalEvents: 0,
-      uniqueUsers: new Set<string>(),
-      unknown: new Set<string>(),
-      byPlan: { free: 0, pro: 0 },
-      byRegion: { us: 0, eu: 0 },
+    // Join each bucket's pre-aggregated per-user counts with the reference table (lazy enrichment)
+    const aggregation = aggregateBuckets(lookbackWindow.buckets, userReferenceTable, {
+      groupBy,
+      attributeValues: this.store.getReferenceAttributeValues(),
+      crosstab,
+      filters,
+      exact,
+      ...(enrichment === 'event_time' && { referenceTableAt: this.store.getReferenceTableAt }),
+      ...(field !== undefined && { field }),
+    });
+
+    // A coarse rollup slot straddling the window start widens the period actually covered
+    const coveredSec = now - lookbackWindow.startSec + 1;
+    return {
+      window_sec: windowSec,
+      window_start: new Date(lookbackWindow.startSec * 1000).toISOString(),
+      resolution_sec: lookbackWindow.resolutionSec,
+      enrichment,
+      unique_users_exact: aggregation.uniqueUsersExact,
+      events_per_sec: aggregation.totalEvents / coveredSec,
+      unique_users: aggregation.uniqueUserCount,
+      unknown: aggregation.unknown,
+      by_type: Object.fromEntries(aggregation.byType),
+      ...formatAttributeCounts(aggregation.byAttribute),
+      value: formatValues(aggregation.values, percentiles),
+      ...formatAttributeValues(aggregation.valuesByAttribute, percentiles),
+      ...(field !== undefined && {
+        field: `${PROPERTY_FIELD_PREFIX}${field}`,
+        field_stats: formatSummary(aggregation.field, percentiles),
+        ...formatAttributeFieldStats(aggregation.fieldByAttribute, percentiles),
+      }),
+      ...(crosstab.length > 0 && { crosstab: formatCrosstab(aggregation.crosstab, coveredSec, percentiles) }),
+      ...(!lookbackWindow.buckets.length && { message: 'No events found in the specified window' }),
+    };
+  }
+
+  // Validates and stores one event, returning its entry for the results list
+  private ingestEvent = (event: Event, serverTimeSec: number): IngestResult => {
+    try {
+      this.store.validateEvent(event, serverTimeSec);
+      this.store.updateRingBuffer(event, serverTimeSec)
+      return {
+        event_id: event.event_id,
+        status: 'success'
+      }
+    } catch (error) {
+      return {
+        event_id: typeof event?.event_id === 'string' ? event.event_id : 'event_unknown',
+        status: 'error',
+        message: (error as Error).message,
+        ...(error instanceof ValidationError && { errors: error.issues }),
+      }
     }
+  }
+
+  /**
+   * Ingests one event per line of an NDJSON request body and streams one result per event back as NDJSON, in line order.
+   * Lines are only read as fast as results can be written and the client's rate limit allows, so a slow or busy client
+   * holds back its own producer. Like a JSON batch, the request's token covers MAX_BATCH_SIZE events and every further
+   * MAX_BATCH_SIZE events take one more. A line over MAX_BODY_BYTES ends the stream
+   */
+  private ingestEventStream = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).type('application/x-ndjson');
+    const throttle = getThrottle(res);
+
+    let lineNumber = 0;
+    let eventLines = 0;
+    const lines = readline.createInterface({ input: req, crlfDelay: Infinity });
 
-    // Process each bucket in the lookback window with lazy enrichment
-    for (const bucket of lookbackWindow) {
-      aggregation.totalEvents += bucket.events.length;
+    // readline buffers a line until its newline arrives, so the unterminated tail is measured as it streams in
+    let tailBytes = 0;
+    let lineTooLarge = false;
+    const measureTail = (chunk: Buffer): void => {
+      const newline = chunk.lastIndexOf(0x0a);
+      tailBytes = newline === -1 ? tailBytes + chunk.length : chunk.length - newline - 1;
+      if (tailBytes > this.config.maxBodyBytes) {
+        lineTooLarge = true;
+        req.off('data', measureTail);
+        lines.close();
+      }
+    };
+    req.on('data', measureTail);
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+      if (Buffer.byteLength(line) > this.config.maxBodyBytes) {
+        lineTooLarge = true;
+        break;
+      }
 
-      for (const event of bucket.events) {
-        const enrichedEvent = this.store.enrichEvent(event, userReferenceTable);
-        if (enrichedEvent.metadata && enrichedEvent.metadata.user) {
-          aggregation.byPlan[enrichedEvent.metadata.user.plan]++;
-          aggregation.byRegion[enrichedEvent.metadata.user.region]++;
-          aggregation.uniqueUsers.add(event.user_id);
-        } else {
-          aggregation.unknown.add(event.event_id);
+      eventLines++;
+      if (eventLines > this.config.maxBatchSize && (eventLines - 1) % this.config.maxBatchSize === 0) {
+        await throttle?.();
+        if (res.destroyed) {
+          lines.close();
+          return;
         }
       }
+
+      let result: IngestResult;
+      try {
+        result = this.ingestEvent(JSON.parse(line), Math.floor(Date.now() / 1000));
+      } catch {
+        const message = `Line ${lineNumber} is not valid JSON`;
+        result = { event_id: 'event_unknown', status: 'error', message, errors: [{ code: 'invalid_format', path: '', message }] };
+      }
+      this.store.flush();
+
+      await writeLine(res, result);
+      if (res.destroyed) {
+        lines.close();
+        return;
+      }
     }
+    req.off('data', measureTail);
 
-    const metrics = {
-      window_sec: windowSec,
-      events_per_sec: aggregation.totalEvents / windowSec,
-      unique_users: aggregation.uniqueUsers.size,
-      unknown: aggregation.unknown.size,
-      by_plan: aggregation.byPlan,
-      by_region: aggregation.byRegion,
+    if (lineTooLarge) {
+      // The rest of the body is read and discarded, so the client can finish sending and receive the results
+      req.resume();
+      const message = `Line exceeds the maximum of ${this.config.maxBodyBytes} bytes, it and later lines were not ingested`;
+      res.end(JSON.stringify({ event_id: 'event_unknown', status: 'error', message, errors: [{ code: 'out_of_range', path: '', message }] }) + '\n');
+      return;
     }
-    res.status(200).json(metrics);
-  })
+    res.end();
+  }
+}
 
-  healthCheck = (_req: Request, res: Response): void => {
-    res.status(200).json({ ok: true});
+type IngestResult = {
+  event_id: string;
+  status: 'success' | 'error';
+  message?: string;
+  errors?: ValidationIssue[];
+}
+
+// Writes one NDJSON line, waiting for the response to drain (or close) when its buffer is full
+const writeLine = async (res: Response, value: unknown): Promise<void> => {
+  if (res.write(JSON.stringify(value) + '\n')) {
+    return;
   }
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
 }
 
-type ControllerHandler = (req: Request, res: Response) => void;
+type ControllerHandler = (req: Request, res: Response) => void | Promise<void>;
 const withErrorHandling = (handler: ControllerHandler): ControllerHandler => {
-  return (req: Request, res: Response): void => {
+  return async (req: Request, res: Response): Promise<void> => {
     try {
-      handler(req, res);
+      await handler(req, res);
     } catch (error) {
+      // A streamed response has already sent its status, all that is left is to end it
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
       res.status(500).json({ 
         error: 'Internal server error', 
         message: (error as Error).message 
@@ -152,3 +513,207 @@ const withErrorHandling = (handler: ControllerHandler): ControllerHandler => {
     }
   };
 };
+
+// Parses a CSV or NDJSON reference file upload, with the timestamp in the ts query parameter.
+// Responds with 400 listing invalid lines and returns null if the file does not parse
+const readReferenceFile = async (req: Request, res: Response, contentType: string): Promise<{ user_metadata: UserMetadata; ts: string } | null> => {
+  const { ts } = req.query;
+  const issues = validateTimestamp(ts, 'ts');
+  if (issues.length) {
+    rejectInvalidRequest(res, 'Invalid ts query parameter', issues);
+    return null;
+  }
+
+  try {
+    return { user_metadata: await importReferenceTable(req, REFERENCE_CONTENT_TYPES[contentType] as ReferenceFormat), ts: ts as string };
+  } catch (error) {
+    if (!(error instanceof ReferenceImportError)) {
+      throw error;
+    }
+    res.status(400).json({
+      error: 'Invalid reference file',
+      message: error.message,
+      errors: error.errors,
+    });
+    return null;
+  }
+}
+
+// Responds with 400 listing every validation issue, with their messages joined for readers that only show one
+const rejectInvalidRequest = (res: Response, error: string, issues: ValidationIssue[]): void => {
+  res.status(400).json({
+    error,
+    message: issues.map(issue => issue.message).join('; '),
+    errors: issues,
+  });
+}
+
+// Reference table versions are exposed as strong ETags, e.g. "3"
+const formatETag = (version: number): string => `"${version}"`;
+
+// Parses the If-Match header into an expected reference table version, '*' for any version,
+// or undefined when absent. Responds with 400 and returns null if it is not a single ETag
+const parseIfMatch = (req: Request, res: Response): number | '*' | undefined | null => {
+  const header = req.get('If-Match');
+  if (header === undefined) {
+    return undefined;
+  }
+  if (header.trim() === '*') {
+    return '*';
+  }
+
+  const match = /^"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    res.status(400).json({
+      error: 'Invalid If-Match header',
+      message: 'If-Match must be * or a single reference table ETag, e.g. "3"',
+    });
+    return null;
+  }
+  return Number(match[1]);
+}
+
+// Responds to a rejected reference update: 412 with the current version for version conflicts, 409 for stale timestamps
+const rejectReferenceUpdate = (res: Response, error: Error): void => {
+  if (error instanceof VersionConflictError) {
+    res.status(412).set('ETag', formatETag(error.currentVersion)).json({
+      error: 'Precondition failed',
+      reason: error.message,
+      current_version: error.currentVersion,
+    });
+    return;
+  }
+
+  res.status(409).json({
+    error: 'Update rejected',
+    reason: error.message,
+  });
+}
+
+const rejectUnknownAlertRule = (res: Response, id: string): void => {
+  res.status(404).json({ error: 'Not found', message: `Alert rule ${id} does not exist` });
+}
+
+type MetricsParams = {
+  windowSec: number;
+  groupBy: string[];
+  crosstab: string[];
+  filters: MetricsFilters;
+  exact: boolean; // count unique users exactly instead of from sketches
+  enrichment: EnrichmentMode;
+  percentiles: number[]; // reported for event values and the requested field
+  field?: string; // numeric event property to summarize, from field=properties.<name>
+}
+
+// Identifies parameters that produce the same metrics, regardless of query parameter and filter value order
+const metricsParamsKey = (params: MetricsParams): string => {
+  return JSON.stringify(params, (_key, value) => {
+    if (value instanceof Set) {
+      return [...value].sort();
+    }
+    if (value instanceof Map) {
+      return [...value].sort(([a], [b]) => a < b ? -1 : 1);
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a < b ? -1 : 1));
+    }
+    return value;
+  });
+}
+
+// Parses query parameters shared by the metrics endpoints, responds with 400 and returns null if any is invalid
+// or unknown. Reference attribute filters must name an attribute in attributeValues, and fields one of summarizedProperties
+const parseMetricsParams = (
+  req: Request,
+  res: Response,
+  attributeValues: Map<string, Set<string>>,
+  summarizedProperties: string[],
+): MetricsParams | null => {
+  const { window, group_by, crosstab, exact, enrichment = 'latest', percentiles, field } = req.query;
+  const windowSec = window? parseInt(window as string) : 300;
+
+  if (isNaN(windowSec) || windowSec <= 0) {
+    res.status(400).json({ error: 'Invalid window parameter' });
+    return null;
+  }
+
+  const groupBy = parseGroupBy(group_by);
+  if (!groupBy) {
+    res.status(400).json({
+      error: 'Invalid group_by parameter',
+      message: 'group_by must be a comma separated list of user attributes, e.g. plan,region',
+    });
+    return null;
+  }
+
+  const crosstabDimensions = parseList(crosstab);
+  if (!crosstabDimensions) {
+    res.status(400).json({
+      error: 'Invalid crosstab parameter',
+      message: 'crosstab must be a comma separated list of dimensions (type or user attributes), e.g. type,plan,region',
+    });
+    return null;
+  }
+
+  const unknownParam = findUnknownQueryParam(req.query, attributeValues);
+  if (unknownParam !== undefined) {
+    res.status(400).json({
+      error: 'Unknown query parameter',
+      message: `${unknownParam} is not a metrics parameter, type, user_id or a reference attribute`,
+    });
+    return null;
+  }
+
+  const filters = parseFilters(req.query);
+  if (!filters) {
+    res.status(400).json({
+      error: 'Invalid filter parameter',
+      message: `filters must be comma separated values, and type must be one of ${EVENT_TYPES.join(', ')}`,
+    });
+    return null;
+  }
+
+  if (!ENRICHMENT_MODES.includes(enrichment as EnrichmentMode)) {
+    res.status(400).json({
+      error: 'Invalid enrichment parameter',
+      message: `enrichment must be one of ${ENRICHMENT_MODES.join(', ')}`,
+    });
+    return null;
+  }
+
+  const parsedPercentiles = parsePercentiles(percentiles);
+  if (!parsedPercentiles) {
+    res.status(400).json({
+      error: 'Invalid percentiles parameter',
+      message: 'percentiles must be a comma separated list of numbers between 0 and 100, e.g. 50,90,99',
+    });
+    return null;
+  }
+
+  const property = parseField(field);
+  if (property === null) {
+    res.status(400).json({
+      error: 'Invalid field parameter',
+      message: `field must be value or ${PROPERTY_FIELD_PREFIX}<name> for a numeric event property, e.g. ${PROPERTY_FIELD_PREFIX}load_time_ms`,
+    });
+    return null;
+  }
+  if (property !== undefined && !summarizedProperties.includes(property)) {
+    res.status(400).json({
+      error: 'Invalid field parameter',
+      message: `${PROPERTY_FIELD_PREFIX}${property} is not summarized, add ${property} to SUMMARIZED_PROPERTIES`,
+    });
+    return null;
+  }
+
+  return {
+    windowSec,
+    groupBy,
+    crosstab: crosstabDimensions,
+    filters,
+    exact: exact === 'true',
+    enrichment: enrichment as EnrichmentMode,
+    percentiles: parsedPercentiles,
+    ...(property !== undefined && { field: property }),
+  };
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+export type SerializedDDSketch = {
+  relative_accuracy: number;
+  zero_count: number;
+  positive: [number, number][]; // bin index -> count
+  negative: [number, number][];
+}
+
+// Values closer to zero than this are counted as zero, as their logarithm would have no useful bin
+const MIN_INDEXABLE_VALUE = 1e-9;
+
+// Approximate memory of an empty sketch with its two stores, and of each bin, measured on V8
+const SKETCH_BYTES = 620;
+const BIN_BYTES = 32;
+
+/**
+ * DDSketch estimates quantiles of a stream of numbers within a relative error in bounded memory.
+ * Values fall into logarithmic bins so each bin's representative value is within relativeAccuracy of every value in it;
+ * sketches with the same accuracy merge by adding bin counts, so per-bucket sketches can be combined at query time.
+ * Each of the positive and negative stores holds at most maxBins bins: past that, the bins for the smallest magnitudes
+ * are collapsed into one, trading accuracy of the lowest quantiles for bounded memory.
+ * @constructor sets the relative accuracy and bin limit
+ * @method add: adds a value
+ * @method merge: folds another sketch into this one
+ * @method quantile: returns the estimated value at a quantile
+ * @method serialize: returns the sketch in serializable form
+ * @method estimatedBytes: returns the approximate memory the sketch holds
+ */
+export class DDSketch {
+  count: number = 0;
+  private zeroCount: number = 0;
+  private positive: SketchStore;
+  private negative: SketchStore;
+  private gamma: number;
+  private logGamma: number;
+
+  constructor(readonly relativeAccuracy: number = 0.01, readonly maxBins: number = 2048) {
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error(`DDSketch relative accuracy must be between 0 and 1, got ${relativeAccuracy}`);
+    }
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+    this.positive = new SketchStore(maxBins);
+    this.negative = new SketchStore(maxBins);
+  }
+
+  add(value: number, count: number = 1): void {
+    if (value > MIN_INDEXABLE_VALUE) {
+      this.positive.add(this.index(value), count);
+    } else if (value < -MIN_INDEXABLE_VALUE) {
+      this.negative.add(this.index(-value), count);
+    } else {
+      this.zeroCount += count;
+    }
+    this.count += count;
+  }
+
+  /**
+   * Folds another sketch into this one, after which this sketch estimates quantiles of both streams together
+   * @throws Error if the sketches have different relative accuracies
+   */
+  merge(other: DDSketch): void {
+    if (other.relativeAccuracy !== this.relativeAccuracy) {
+      throw new Error(`Cannot merge DDSketches with relative accuracy ${other.relativeAccuracy} and ${this.relativeAccuracy}`);
+    }
+    this.positive.merge(other.positive);
+    this.negative.merge(other.negative);
+    this.zeroCount += other.zeroCount;
+    this.count += other.count;
+  }
+
+  /**
+   * Returns the estimated value at a quantile (0-1) using the nearest-rank method, or null for an empty sketch
+   */
+  quantile(q: number): number | null {
+    if (!this.count) {
+      return null;
+    }
+
+    const rank = Math.max(1, Math.ceil(q * this.count));
+    let seen = 0;
+    // Most negative values first: largest magnitudes of the negative store
+    for (const [index, count] of this.negative.bins().reverse()) {
+      seen += count;
+      if (seen >= rank) {
+        return -this.value(index);
+      }
+    }
+    seen += this.zeroCount;
+    if (seen >= rank) {
+      return 0;
+    }
+    for (const [index, count] of this.positive.bins()) {
+      seen += count;
+      if (seen >= rank) {
+        return this.value(index);
+      }
+    }
+    return null;
+  }
+
+  serialize(): SerializedDDSketch {
+    return {
+      relative_accuracy: this.relativeAccuracy,
+      zero_count: this.zeroCount,
+      positive: this.positive.bins(),
+      negative: this.negative.bins(),
+    };
+  }
+
+  estimatedBytes(): number {
+    return SKETCH_BYTES + (this.positive.size() + this.negative.size()) * BIN_BYTES;
+  }
+
+  static restore(serialized: SerializedDDSketch, maxBins?: number): DDSketch {
+    const sketch = new DDSketch(serialized.relative_accuracy, maxBins);
+    for (const [index, count] of serialized.positive) {
+      sketch.positive.add(index, count);
+      sketch.count += count;
+    }
+    for (const [index, count] of serialized.negative) {
+      sketch.negative.add(index, count);
+      sketch.count += count;
+    }
+    sketch.zeroCount = serialized.zero_count;
+    sketch.count += serialized.zero_count;
+    return sketch;
+  }
+
+  private index(magnitude: number): number {
+    return Math.ceil(Math.log(magnitude) / this.logGamma);
+  }
+
+  // Representative value of a bin, within the relative accuracy of every value in (gamma^(index-1), gamma^index]
+  private value(index: number): number {
+    return (2 * this.gamma ** index) / (this.gamma + 1);
+  }
+}
+
+// Sparse bin counts of one sign, collapsing the lowest bins once there are more than maxBins
+class SketchStore {
+  private counts: Map<number, number> = new Map();
+  private floor: number = -Infinity; // lowest bin index kept, lower indexes are counted in it
+
+  constructor(private maxBins: number) {}
+
+  add(index: number, count: number): void {
+    const key = Math.max(index, this.floor);
+    this.counts.set(key, (this.counts.get(key) ?? 0) + count);
+    if (this.counts.size > this.maxBins) {
+      this.collapse();
+    }
+  }
+
+  merge(other: SketchStore): void {
+    for (const [index, count] of other.counts) {
+      this.add(index, count);
+    }
+  }
+
+  size(): number {
+    return this.counts.size;
+  }
+
+  // Bins ordered by ascending index
+  bins(): [number, number][] {
+    return [...this.counts].sort((a, b) => a[0] - b[0]);
+  }
+
+  private collapse(): void {
+    const indexes = [...this.counts.keys()].sort((a, b) => a - b);
+    this.floor = indexes[indexes.length - this.maxBins] as number;
+
+    let collapsed = 0;
+    for (const index of indexes) {
+      if (index >= this.floor) {
+        break;
+      }
+      collapsed += this.counts.get(index) as number;
+      this.counts.delete(index);
+    }
+    this.counts.set(this.floor, (this.counts.get(this.floor) ?? 0) + collapsed);
+  }
+}
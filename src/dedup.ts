@@ -0,0 +1,90 @@
+type DedupSlot = {
+  sec: number; // epoch second of the events whose IDs this slot holds
+  eventIds: Set<string>;
+}
+
+export type DedupStats = {
+  size: number; // event IDs currently remembered
+  horizon_sec: number;
+  oldest_sec: number | null;
+  expired_total: number; // event IDs expired since startup
+}
+
+/**
+ * DedupIndex remembers event IDs in 1s slots keyed by event timestamp and forgets them once they fall out of the horizon.
+ * Since events older than the lateness threshold are rejected anyway, a horizon at least that long keeps retries idempotent with bounded memory.
+ * @constructor initializes one slot per second of the horizon
+ * @method has: returns true if an event ID is remembered
+ * @method add: remembers an event ID under its event second
+ * @method expire: forgets event IDs whose slots are reused as the window advances
+ * @method stats: returns index size and expiry counters
+ * @method entries: returns remembered event IDs with their event second
+ */
+export class DedupIndex {
+  private slots: DedupSlot[];
+  private eventSecs: Map<string, number> = new Map(); // event_id -> event second
+  private expiredTotal: number = 0;
+
+  constructor(private horizonSec: number) {
+    this.slots = Array.from({ length: horizonSec }, () => ({ sec: 0, eventIds: new Set() }));
+  }
+
+  has = (eventId: string): boolean => {
+    return this.eventSecs.has(eventId);
+  }
+
+  /**
+   * Remembers an event ID under its event second, evicting whatever second previously held the slot
+   */
+  add = (eventId: string, eventSec: number): void => {
+    const slot = this.slots[eventSec % this.horizonSec] as DedupSlot;
+
+    // Slot already holds a newer second, this event is beyond the horizon
+    if (slot.sec > eventSec) {
+      return;
+    }
+    if (slot.sec !== eventSec) {
+      this.evict(slot, eventSec);
+    }
+
+    slot.eventIds.add(eventId);
+    this.eventSecs.set(eventId, eventSec);
+  }
+
+  /**
+   * Forgets event IDs for slots reused by seconds in (fromSec, toSec], in step with the sliding window
+   */
+  expire = (fromSec: number, toSec: number): void => {
+    const end = Math.min(toSec, fromSec + this.horizonSec);
+    for (let sec = fromSec + 1; sec <= end; sec++) {
+      const slot = this.slots[sec % this.horizonSec] as DedupSlot;
+      // Keep slots that already hold this second (future-dated events accepted within clock skew)
+      if (slot.sec < sec) {
+        this.evict(slot, 0);
+      }
+    }
+  }
+
+  stats = (): DedupStats => {
+    const secs = this.slots.filter(slot => slot.eventIds.size > 0).map(slot => slot.sec);
+    return {
+      size: this.eventSecs.size,
+      horizon_sec: this.horizonSec,
+      oldest_sec: secs.length ? Math.min(...secs) : null,
+      expired_total: this.expiredTotal,
+    };
+  }
+
+  entries = (): [string, number][] => {
+    return [...this.eventSecs];
+  }
+
+  private evict = (slot: DedupSlot, sec: number): void => {
+    for (const eventId of slot.eventIds) {
+      this.eventSecs.delete(eventId);
+    }
+    this.expiredTotal += slot.eventIds.size;
+    slot.sec = sec;
+    slot.eventIds = new Set();
+  }
+}
@@ -0,0 +1,57 @@
+import type { ValidationIssue } from './validation.js';
+
+/**
+ * Thrown when a conditional write names a reference table version that is no longer current
+ */
+export class VersionConflictError extends Error {
+  constructor(readonly expectedVersion: number, readonly currentVersion: number) {
+    super(`Version conflict: update made against version ${expectedVersion}. Current version is ${currentVersion}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Thrown when a payload fails validation, carrying every issue found rather than only the first
+ */
+export class ValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[], message: string = issues.map(issue => issue.message).join('; ')) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export type TenantQuota = 'events_per_sec' | 'memory';
+
+/**
+ * Thrown when a tenant is over one of its quotas, so the event is rejected before it reaches the store
+ */
+export class QuotaExceededError extends Error {
+  constructor(readonly tenantId: string, readonly quota: TenantQuota, message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Thrown when a request's credentials are missing or invalid, answered with 401
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export type ImportLineError = ValidationIssue & {
+  line: number; // 1-based line number in the uploaded file
+}
+
+/**
+ * Thrown when a bulk reference load has invalid lines, so nothing from it is applied
+ */
+export class ReferenceImportError extends Error {
+  constructor(readonly errors: ImportLineError[]) {
+    super(`Reference file has ${errors.length} invalid line${errors.length === 1 ? '' : 's'}`);
+    this.name = 'ReferenceImportError';
+  }
+}
@@ -0,0 +1,113 @@
+const HASH_BITS = 32;
+const HLL_OVERHEAD_BYTES = 100; // object and register array headers, measured on V8
+
+/**
+ * HyperLogLog estimates the number of distinct strings added to it in fixed memory (2^precision bytes).
+ * Sketches with the same precision merge losslessly, so per-bucket sketches can be combined at query time.
+ * Standard error is about 1.04 / sqrt(2^precision), e.g. 1.6% at the default precision of 12.
+ * @constructor allocates one register per 2^precision
+ * @method add: adds a string to the sketch
+ * @method merge: folds another sketch into this one
+ * @method count: returns the estimated number of distinct strings
+ * @method estimatedBytes: returns the approximate memory the sketch holds
+ */
+export class HyperLogLog {
+  private registers: Uint8Array;
+
+  constructor(readonly precision: number = 12) {
+    if (!Number.isInteger(precision) || precision < 4 || precision > 16) {
+      throw new Error(`HyperLogLog precision must be an integer between 4 and 16, got ${precision}`);
+    }
+    this.registers = new Uint8Array(1 << precision);
+  }
+
+  add = (value: string): void => {
+    const hash = murmur3(value);
+    const index = hash >>> (HASH_BITS - this.precision);
+    // Rank is the position of the first 1 bit in the remaining bits, capped when they are all 0
+    const remaining = (hash << this.precision) >>> 0;
+    const rank = remaining === 0 ? HASH_BITS - this.precision + 1 : Math.clz32(remaining) + 1;
+
+    if (rank > (this.registers[index] as number)) {
+      this.registers[index] = rank;
+    }
+  }
+
+  /**
+   * Folds another sketch into this one, after which this sketch estimates the union of both
+   * @throws Error if the sketches have different precisions
+   */
+  merge = (other: HyperLogLog): void => {
+    if (other.precision !== this.precision) {
+      throw new Error(`Cannot merge HyperLogLog sketches with precision ${other.precision} and ${this.precision}`);
+    }
+    for (let i = 0; i < this.registers.length; i++) {
+      const register = other.registers[i] as number;
+      if (register > (this.registers[i] as number)) {
+        this.registers[i] = register;
+      }
+    }
+  }
+
+  count = (): number => {
+    const m = this.registers.length;
+    const alpha = 0.7213 / (1 + 1.079 / m);
+
+    let harmonicSum = 0;
+    let zeros = 0;
+    for (const register of this.registers) {
+      harmonicSum += 2 ** -register;
+      if (register === 0) {
+        zeros++;
+      }
+    }
+
+    const estimate = (alpha * m * m) / harmonicSum;
+
+    // Small range correction: linear counting is more accurate while many registers are empty
+    if (estimate <= 2.5 * m && zeros > 0) {
+      return Math.round(m * Math.log(m / zeros));
+    }
+    // Large range correction for 32 bit hash collisions
+    if (estimate > 2 ** HASH_BITS / 30) {
+      return Math.round(-(2 ** HASH_BITS) * Math.log(1 - estimate / 2 ** HASH_BITS));
+    }
+    return Math.round(estimate);
+  }
+
+  estimatedBytes = (): number => {
+    return HLL_OVERHEAD_BYTES + this.registers.length;
+  }
+}
+
+// MurmurHash3 (x86, 32 bit) over UTF-16 code units, for well distributed register indexes
+const murmur3 = (value: string, seed: number = 0): number => {
+  let h = seed;
+  const c1 = 0xcc9e2d51;
+  const c2 = 0x1b873593;
+
+  const mix = (k: number): void => {
+    k = Math.imul(k, c1);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, c2);
+    h ^= k;
+  };
+
+  let i = 0;
+  for (; i + 1 < value.length; i += 2) {
+    mix(value.charCodeAt(i) | (value.charCodeAt(i + 1) << 16));
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+  if (i < value.length) {
+    mix(value.charCodeAt(i));
+  }
+
+  h ^= value.length * 2;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -0,0 +1,185 @@
+import readline from 'node:readline';
+import type { Readable } from 'node:stream';
+import type { UserMetadata } from './types.js';
+import { ReferenceImportError, ValidationError } from './errors.js';
+import type { ImportLineError } from './errors.js';
+import { isObject } from './utils.js';
+import { validateUserAttributes } from './validation.js';
+import type { ValidationIssueCode } from './validation.js';
+
+export type ReferenceFormat = 'csv' | 'ndjson';
+
+// Content types accepted for bulk reference loads, besides the JSON object body
+export const REFERENCE_CONTENT_TYPES: Record<string, ReferenceFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+};
+
+// Parsing stops once this many lines are invalid, the file is most likely in the wrong shape
+const MAX_IMPORT_ERRORS = 100;
+
+/**
+ * Parses a reference table export line by line as it streams in, so large files never have to be buffered or parsed in one go.
+ * CSV files need a header row with a `user_id` column, every other column becomes an attribute (empty cells are left out).
+ * NDJSON files hold one flat object per line, e.g. {"user_id": "u-123", "plan": "pro", "region": "eu"}
+ * @returns User metadata keyed by user ID, only once the whole input has parsed
+ * @throws ReferenceImportError listing invalid lines by line number
+ */
+export const importReferenceTable = async (input: Readable, format: ReferenceFormat): Promise<UserMetadata> => {
+  const users = new Map<string, Record<string, string>>();
+  const firstSeenOn = new Map<string, number>(); // user_id -> line it was first seen on
+  const errors: ImportLineError[] = [];
+  let header: string[] | null = null;
+  let lineNumber = 0;
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+
+    try {
+      if (format === 'csv' && !header) {
+        header = parseCsvHeader(line);
+        continue;
+      }
+
+      const [userId, attributes] = format === 'csv'
+        ? parseCsvRow(line, header as string[])
+        : parseNdjsonRow(line);
+
+      const firstLine = firstSeenOn.get(userId);
+      if (firstLine !== undefined) {
+        throw rowError('duplicate', 'user_id', `duplicate user_id ${userId}, first seen on line ${firstLine}`);
+      }
+      firstSeenOn.set(userId, lineNumber);
+      users.set(userId, attributes);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      errors.push(...error.issues.map(issue => ({ line: lineNumber, ...issue })));
+      // A bad header makes every row unreadable
+      if (errors.length >= MAX_IMPORT_ERRORS || (format === 'csv' && !header)) {
+        // Discard the rest of the upload instead of destroying it, so the client still gets a response
+        lines.close();
+        input.resume();
+        break;
+      }
+    }
+  }
+
+  if (format === 'csv' && !header && !errors.length) {
+    errors.push({ line: 1, code: 'required', path: '', message: 'missing header row' });
+  }
+  if (errors.length) {
+    throw new ReferenceImportError(errors);
+  }
+  return Object.fromEntries(users);
+}
+
+const parseCsvHeader = (line: string): string[] => {
+  const columns = parseCsvLine(line);
+  if (!columns.includes('user_id')) {
+    throw rowError('required', 'user_id', 'header row must have a user_id column');
+  }
+  if (columns.some(column => !column)) {
+    throw rowError('required', '', 'header row has an empty column name');
+  }
+  const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+  if (duplicate !== undefined) {
+    throw rowError('duplicate', duplicate, `header row has duplicate column ${duplicate}`);
+  }
+
+  // Every other column becomes an attribute, so must be a valid attribute name
+  const issues = validateUserAttributes(Object.fromEntries(columns.filter(column => column !== 'user_id').map(column => [column, ''])));
+  if (issues.length) {
+    throw new ValidationError(issues);
+  }
+  return columns;
+}
+
+const parseCsvRow = (line: string, header: string[]): [string, Record<string, string>] => {
+  const fields = parseCsvLine(line);
+  if (fields.length !== header.length) {
+    throw rowError('invalid_format', '', `expected ${header.length} fields, got ${fields.length}`);
+  }
+
+  let userId = '';
+  const attributes: [string, string][] = [];
+  for (const [i, column] of header.entries()) {
+    const value = fields[i] as string;
+    if (column === 'user_id') {
+      userId = value;
+    } else if (value !== '') {
+      attributes.push([column, value]);
+    }
+  }
+
+  if (!userId) {
+    throw rowError('required', 'user_id', 'user_id is required');
+  }
+  return [userId, Object.fromEntries(attributes)];
+}
+
+const parseNdjsonRow = (line: string): [string, Record<string, string>] => {
+  let row: unknown;
+  try {
+    row = JSON.parse(line);
+  } catch {
+    throw rowError('invalid_format', '', 'invalid JSON');
+  }
+  if (!isObject(row)) {
+    throw rowError('invalid_type', '', 'row must be a JSON object');
+  }
+
+  const { user_id: userId, ...attributes } = row as Record<string, unknown>;
+  if (typeof userId !== 'string' || !userId) {
+    throw rowError(userId === undefined ? 'required' : 'invalid_type', 'user_id', 'user_id must be a non-empty string');
+  }
+  const issues = validateUserAttributes(attributes);
+  if (issues.length) {
+    throw new ValidationError(issues);
+  }
+  return [userId, attributes as Record<string, string>];
+}
+
+// Splits one CSV line into fields, honoring double quoted fields with "" as an escaped quote (RFC 4180).
+// Quoted fields cannot span lines, since rows are parsed one line at a time
+const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw rowError('invalid_format', '', 'unterminated quoted field');
+  }
+  fields.push(field);
+  return fields;
+}
+
+const rowError = (code: ValidationIssueCode, path: string, message: string): ValidationError => {
+  return new ValidationError([{ code, path, message }]);
+}
@@ -0,0 +1,163 @@
+import type { NextFunction, Request, Response } from 'express';
+import { QuotaExceededError, ValidationError } from './errors.js';
+import type { Store } from './store.js';
+
+export type RejectionReason = 'duplicate' | 'skew' | 'late' | 'retention' | 'schema' | 'quota';
+export const REJECTION_REASONS: RejectionReason[] = ['duplicate', 'skew', 'late', 'retention', 'schema', 'quota'];
+
+type EventCounts = {
+  accepted: number;
+  rejected: Record<RejectionReason, number>;
+}
+
+// Prometheus' default buckets, in seconds
+const LATENCY_BUCKETS_SEC = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * ServiceMetrics counts ingest outcomes per tenant and request latencies per route, and renders them with
+ * per-tenant store gauges in the Prometheus text exposition format
+ * @method instrumentStore: returns a tenant's store that counts accepted events and rejections by reason
+ * @method observeRequests: middleware timing every request into a histogram per method, route and status
+ * @method handleScrape: returns the GET /internal/metrics handler for the given tenants' stores
+ */
+export class ServiceMetrics {
+  private events: Map<string, EventCounts> = new Map(); // tenant ID -> counts
+  private latencies: Map<string, Histogram> = new Map(); // labels -> histogram
+
+  // Store methods are own arrow function properties, so the spread keeps them bound to the tenant's store
+  instrumentStore = (tenantId: string, store: Store): Store => {
+    const counts: EventCounts = {
+      accepted: 0,
+      rejected: Object.fromEntries(REJECTION_REASONS.map(reason => [reason, 0])) as Record<RejectionReason, number>,
+    };
+    this.events.set(tenantId, counts);
+
+    return {
+      ...store,
+      validateEvent: (event, clockSec) => {
+        try {
+          return store.validateEvent(event, clockSec);
+        } catch (error) {
+          counts.rejected[rejectionReason(error)]++;
+          throw error;
+        }
+      },
+      // Validated events are only refused here when they fall outside the ring buffer retention
+      updateRingBuffer: (event, clockSec) => {
+        try {
+          store.updateRingBuffer(event, clockSec);
+        } catch (error) {
+          counts.rejected.retention++;
+          throw error;
+        }
+        counts.accepted++;
+      },
+    };
+  }
+
+  // Streams (SSE and NDJSON) are timed until they end, so their routes measure connection lifetimes
+  observeRequests = (req: Request, res: Response, next: NextFunction): void => {
+    const startNs = process.hrtime.bigint();
+    res.once('close', () => {
+      // req.route is set once a route matched, unmatched paths share one series so they cannot grow the label set
+      const route = typeof req.route?.path === 'string' ? req.route.path : 'unmatched';
+      const labels = formatLabels({ method: req.method, route, status: String(res.statusCode) });
+      const histogram = this.latencies.get(labels) ?? new Histogram(LATENCY_BUCKETS_SEC);
+      histogram.observe(Number(process.hrtime.bigint() - startNs) / 1e9);
+      this.latencies.set(labels, histogram);
+    });
+    next();
+  }
+
+  handleScrape = (getStores: () => Map<string, Store>) => (_req: Request, res: Response): void => {
+    res.status(200).type('text/plain; version=0.0.4').send(this.render(getStores(), Math.floor(Date.now() / 1000)));
+  }
+
+  private render = (stores: Map<string, Store>, nowSec: number): string => {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    const tenantIds = [...stores.keys()].sort();
+
+    family('analytics_events_accepted_total', 'counter', 'Events accepted into the ring buffer');
+    for (const tenantId of tenantIds) {
+      lines.push(`analytics_events_accepted_total${formatLabels({ tenant: tenantId })} ${this.events.get(tenantId)?.accepted ?? 0}`);
+    }
+    family('analytics_events_rejected_total', 'counter', 'Events rejected, by reason');
+    for (const tenantId of tenantIds) {
+      const counts = this.events.get(tenantId);
+      for (const reason of REJECTION_REASONS) {
+        lines.push(`analytics_events_rejected_total${formatLabels({ tenant: tenantId, reason })} ${counts?.rejected[reason] ?? 0}`);
+      }
+    }
+
+    family('analytics_ring_buffer_events', 'gauge', 'Events within the ring buffer retention');
+    for (const tenantId of tenantIds) {
+      lines.push(`analytics_ring_buffer_events${formatLabels({ tenant: tenantId })} ${stores.get(tenantId)?.getUsage().events ?? 0}`);
+    }
+    family('analytics_dedup_event_ids', 'gauge', 'Event IDs remembered for duplicate checks');
+    for (const tenantId of tenantIds) {
+      lines.push(`analytics_dedup_event_ids${formatLabels({ tenant: tenantId })} ${stores.get(tenantId)?.getDedupStats().size ?? 0}`);
+    }
+    family('analytics_reference_generation', 'gauge', 'Version of the current reference table, 0 before the first update');
+    for (const tenantId of tenantIds) {
+      lines.push(`analytics_reference_generation${formatLabels({ tenant: tenantId })} ${stores.get(tenantId)?.getReferenceVersion() ?? 0}`);
+    }
+    // Version 0 has no timestamp to be aged from, so tenants without a reference table have no series
+    family('analytics_reference_age_seconds', 'gauge', 'Seconds since the timestamp of the current reference table');
+    for (const tenantId of tenantIds) {
+      const store = stores.get(tenantId);
+      if (store && store.getReferenceVersion() > 0) {
+        lines.push(`analytics_reference_age_seconds${formatLabels({ tenant: tenantId })} ${nowSec - store.getReferenceTimestamp()}`);
+      }
+    }
+
+    family('analytics_http_request_duration_seconds', 'histogram', 'Request latency, by method, route and status');
+    for (const [labels, histogram] of [...this.latencies].sort(([a], [b]) => a < b ? -1 : 1)) {
+      lines.push(...histogram.render('analytics_http_request_duration_seconds', labels));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+class Histogram {
+  private counts: number[]; // observations per bucket, the last one past every bound
+  private sum: number = 0;
+
+  constructor(private bounds: number[]) {
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  observe = (value: number): void => {
+    const index = this.bounds.findIndex(bound => value <= bound);
+    this.counts[index === -1 ? this.bounds.length : index]!++;
+    this.sum += value;
+  }
+
+  // Prometheus buckets are cumulative, each counting every observation up to its bound
+  render = (name: string, labels: string): string[] => {
+    const lines: string[] = [];
+    let cumulative = 0;
+    for (const [i, count] of this.counts.entries()) {
+      cumulative += count;
+      const le = i < this.bounds.length ? String(this.bounds[i]) : '+Inf';
+      lines.push(`${name}_bucket${labels.slice(0, -1)},le="${le}"} ${cumulative}`);
+    }
+    lines.push(`${name}_sum${labels} ${this.sum}`, `${name}_count${labels} ${cumulative}`);
+    return lines;
+  }
+}
+
+const rejectionReason = (error: unknown): RejectionReason => {
+  if (error instanceof QuotaExceededError) {
+    return 'quota';
+  }
+  const code = error instanceof ValidationError ? error.issues[0]?.code : undefined;
+  return code === 'duplicate' ? 'duplicate' : code === 'too_far_in_future' ? 'skew' : code === 'too_late' ? 'late' : 'schema';
+}
+
+// Renders {name="value",...} with backslashes, quotes and newlines escaped as the exposition format requires
+const formatLabels = (labels: Record<string, string>): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${pairs.join(',')}}`;
+}
@@ -0,0 +1,147 @@
+import type { NextFunction, Request, Response } from 'express';
+import { getPrincipal } from './auth.js';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+
+type TokenBucket = {
+  tokens: number;
+  updatedMs: number; // when tokens was last refilled
+}
+
+// Takes one more token from the client a request was rate limited as, waiting for it to refill if needed.
+// Set on res.locals.throttle by RequestLimiter.rateLimit for handlers that charge per item, e.g. per batch of NDJSON lines
+export type Throttle = () => Promise<void>;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * RequestLimiter keeps one noisy client from stalling the event loop for everyone else:
+ * a token bucket per API key, token subject or IP, and a cap on POST /events requests in flight across all clients.
+ * @constructor takes the config with the rate, burst and concurrency limits
+ * @method limitUnauthorized: returns middleware charging requests answered 401 to their IP's bucket, answering 429 once it is empty
+ * @method rateLimit: middleware answering 429 with Retry-After once the client's bucket is empty, and setting the request's throttle
+ * @method limitIngestConcurrency: middleware answering 429 with Retry-After while MAX_CONCURRENT_INGESTS requests are in flight
+ * @method handleBodyTooLarge: error middleware answering bodies over MAX_BODY_BYTES with a JSON 413
+ */
+export class RequestLimiter {
+  private buckets: Map<string, TokenBucket> = new Map(); // client -> bucket, full buckets are swept
+  private lastSweepMs: number = Date.now();
+  private ingestsInFlight: number = 0;
+
+  constructor(private config: Config = DEFAULT_CONFIG) {}
+
+  /**
+   * Returns middleware running before authentication, so guessing credentials costs tokens like any other request.
+   * Requests answered 401 take a token from their IP's bucket, and once it is empty requests from the IP that fail
+   * the authenticates check get 429 before anything else. Valid credentials are let through to their own bucket,
+   * so failed attempts from a shared IP do not lock out its authenticated clients
+   */
+  limitUnauthorized = (authenticates: (req: Request) => boolean) => (req: Request, res: Response, next: NextFunction): void => {
+    const client = `ip:${req.ip}`;
+    const bucket = this.refill(this.buckets.get(client), Date.now());
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens < 1 && !authenticates(req)) {
+      const retryAfterSec = Math.ceil((1 - bucket.tokens) / this.config.rateLimitPerSec);
+      respondTooManyRequests(res, retryAfterSec, `Rate limit of ${this.config.rateLimitPerSec} requests per second exceeded`);
+      return;
+    }
+    res.once('finish', () => {
+      if (res.statusCode === 401) {
+        const charged = this.refill(this.buckets.get(client), Date.now());
+        charged.tokens = Math.max(0, charged.tokens - 1);
+        this.buckets.set(client, charged);
+      }
+    });
+    next();
+  }
+
+  // Runs after authentication, so authenticated clients are limited by their credentials rather than their IP
+  rateLimit = (req: Request, res: Response, next: NextFunction): void => {
+    const nowMs = Date.now();
+    this.sweep(nowMs);
+
+    const principal = getPrincipal(res);
+    const client = principal ? `principal:${principal.subject}` : `ip:${req.ip}`;
+    const bucket = this.refill(this.buckets.get(client), nowMs);
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      const retryAfterSec = Math.ceil((1 - bucket.tokens) / this.config.rateLimitPerSec);
+      respondTooManyRequests(res, retryAfterSec, `Rate limit of ${this.config.rateLimitPerSec} requests per second exceeded`);
+      return;
+    }
+    bucket.tokens--;
+    res.locals.throttle = (() => this.takeToken(client)) satisfies Throttle;
+    next();
+  }
+
+  // Runs before the body is read, so shed requests cost no parsing. NDJSON streams hold their slot until they end
+  limitIngestConcurrency = (_req: Request, res: Response, next: NextFunction): void => {
+    if (this.ingestsInFlight >= this.config.maxConcurrentIngests) {
+      respondTooManyRequests(res, 1, `Server is busy with ${this.config.maxConcurrentIngests} ingest requests, retry shortly`);
+      return;
+    }
+    this.ingestsInFlight++;
+    res.once('close', () => this.ingestsInFlight--);
+    next();
+  }
+
+  handleBodyTooLarge = (error: unknown, _req: Request, res: Response, next: NextFunction): void => {
+    if ((error as { type?: string } | null)?.type !== 'entity.too.large') {
+      next(error);
+      return;
+    }
+    res.status(413).json({
+      error: 'Body too large',
+      message: `Request body exceeds the maximum of ${this.config.maxBodyBytes} bytes`,
+    });
+  }
+
+  // Streams share their client's bucket with its requests, so a stream waits rather than being answered 429
+  private takeToken = async (client: string): Promise<void> => {
+    for (;;) {
+      const bucket = this.refill(this.buckets.get(client), Date.now());
+      this.buckets.set(client, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens--;
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.ceil((1 - bucket.tokens) / this.config.rateLimitPerSec * 1000)));
+    }
+  }
+
+  private refill = (bucket: TokenBucket | undefined, nowMs: number): TokenBucket => {
+    const { rateLimitPerSec, rateLimitBurst } = this.config;
+    if (!bucket) {
+      return { tokens: rateLimitBurst, updatedMs: nowMs };
+    }
+    bucket.tokens = Math.min(rateLimitBurst, bucket.tokens + (nowMs - bucket.updatedMs) / 1000 * rateLimitPerSec);
+    bucket.updatedMs = nowMs;
+    return bucket;
+  }
+
+  // A bucket that has refilled is the same as no bucket, so idle clients do not accumulate
+  private sweep = (nowMs: number): void => {
+    if (nowMs - this.lastSweepMs < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    for (const [client, bucket] of this.buckets) {
+      if (this.refill(bucket, nowMs).tokens >= this.config.rateLimitBurst) {
+        this.buckets.delete(client);
+      }
+    }
+    this.lastSweepMs = nowMs;
+  }
+}
+
+/**
+ * Returns the throttle of the request's client, undefined if the route is not rate limited
+ */
+export const getThrottle = (res: Response): Throttle | undefined => {
+  return res.locals.throttle as Throttle | undefined;
+}
+
+const respondTooManyRequests = (res: Response, retryAfterSec: number, message: string): void => {
+  res.status(429).set('Retry-After', String(retryAfterSec)).json({ error: 'Too Many Requests', message });
+}
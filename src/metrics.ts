@@ -0,0 +1,466 @@
+import { HyperLogLog } from './hll.js';
+import { DEFAULT_PERCENTILES, ValueSummary } from './values.js';
+import type { CountBucket, EventType, UserAttributes, UserCounts, UserReferenceTable } from './types.js';
+import { DEFAULT_GROUP_BY, EVENT_TYPES, MISSING_ATTRIBUTE_VALUE, UNKNOWN_USER_VALUE } from './utils.js';
+
+export type CrosstabRow = {
+  key: Record<string, string>; // dimension -> value, e.g. { type: 'purchase', plan: 'pro', region: 'eu' }
+  count: number;
+  users: Set<string>;
+  values: Map<string, ValueSummary>; // currency -> event values
+}
+
+export type Aggregation = {
+  totalEvents: number;
+  uniqueUserCount: number; // distinct known users
+  uniqueUsersExact: boolean; // false if estimated from bucket sketches
+  unknown: number;
+  byType: Map<EventType, number>;
+  byAttribute: Map<string, Map<string, number>>; // attribute -> value -> event count
+  values: Map<string, ValueSummary>; // currency -> event values
+  valuesByAttribute: Map<string, Map<string, Map<string, ValueSummary>>>; // attribute -> value -> currency -> event values
+  field: ValueSummary; // values of the requested numeric property, empty if none was requested
+  fieldByAttribute: Map<string, Map<string, ValueSummary>>; // attribute -> value -> values of the requested property
+  crosstab: Map<string, CrosstabRow>; // serialized key -> combination of dimension values
+}
+
+type ValuesByType = NonNullable<UserCounts['values']>;
+
+// Limits which events are aggregated; values within a filter are OR'ed, filters are AND'ed
+export type MetricsFilters = {
+  types?: Set<EventType>;
+  userIds?: Set<string>;
+  attributes?: Map<string, Set<string>>; // only known users match attribute filters
+}
+
+export type AggregationOptions = {
+  groupBy: string[]; // attributes to break event counts down by
+  attributeValues: Map<string, Set<string>>; // distinct values per attribute, used to report zero counts
+  crosstab?: string[]; // dimensions to group by at once: 'type' or any reference attribute
+  filters?: MetricsFilters;
+  exact?: boolean; // count unique users with a Set even when buckets carry sketches
+  referenceTableAt?: (sec: number) => UserReferenceTable; // enrich each bucket with the generation active at its second instead
+  field?: string; // numeric event property to summarize, e.g. load_time_ms
+}
+
+// Which reference generation events are enriched with: the current one, or the one active at each event's timestamp
+export type EnrichmentMode = 'latest' | 'event_time';
+export const ENRICHMENT_MODES: EnrichmentMode[] = ['latest', 'event_time'];
+
+// Query parameters that are not filters; besides type and user_id, every other parameter filters on a reference attribute
+export const NON_FILTER_QUERY_PARAMS = new Set(['window', 'group_by', 'crosstab', 'step', 'exact', 'enrichment', 'percentiles', 'field']);
+
+// Fields percentiles can be computed over: the event value, or a numeric event property
+export const VALUE_FIELD = 'value';
+export const PROPERTY_FIELD_PREFIX = 'properties.';
+
+/**
+ * Parses a comma separated list query parameter, e.g. group_by=plan,region
+ * @returns Deduplicated list, the fallback if the parameter is absent, or null if it is malformed
+ */
+export const parseList = (value: unknown, fallback: string[] = []): string[] | null => {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const items = value.split(',').map(item => item.trim());
+  if (items.some(item => !item)) {
+    return null;
+  }
+  return [...new Set(items)];
+}
+
+/**
+ * Parses the group_by query parameter into attribute names, defaulting to DEFAULT_GROUP_BY
+ */
+export const parseGroupBy = (groupBy: unknown): string[] | null => {
+  return parseList(groupBy, DEFAULT_GROUP_BY);
+}
+
+/**
+ * Parses filter query parameters: `type`, `user_id` and any reference attribute, e.g. type=purchase&plan=pro,team
+ * @returns Filters, or null if a parameter is malformed or names an unsupported event type
+ */
+export const parseFilters = (query: Record<string, unknown>): MetricsFilters | null => {
+  const filters: MetricsFilters = {};
+
+  for (const [param, value] of Object.entries(query)) {
+    if (NON_FILTER_QUERY_PARAMS.has(param)) {
+      continue;
+    }
+
+    const values = parseList(value);
+    if (!values) {
+      return null;
+    }
+
+    if (param === 'type') {
+      if (values.some(type => !EVENT_TYPES.includes(type as EventType))) {
+        return null;
+      }
+      filters.types = new Set(values as EventType[]);
+    } else if (param === 'user_id') {
+      filters.userIds = new Set(values);
+    } else {
+      filters.attributes ??= new Map();
+      filters.attributes.set(param, new Set(values));
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Returns the first query parameter that is neither a metrics parameter nor a filter on type, user_id,
+ * an attribute seen in a reference table or one of the default group_by attributes, so typos are not silently ignored
+ */
+export const findUnknownQueryParam = (query: Record<string, unknown>, attributeValues: Map<string, Set<string>>): string | undefined => {
+  return Object.keys(query).find(param =>
+    !NON_FILTER_QUERY_PARAMS.has(param)
+      && param !== 'type'
+      && param !== 'user_id'
+      && !attributeValues.has(param)
+      && !DEFAULT_GROUP_BY.includes(param));
+}
+
+/**
+ * Parses the percentiles query parameter, e.g. percentiles=50,90,99.9, defaulting to DEFAULT_PERCENTILES
+ * @returns Ascending percentiles, or null if one is not a number between 0 and 100
+ */
+export const parsePercentiles = (value: unknown): number[] | null => {
+  const items = parseList(value, DEFAULT_PERCENTILES.map(String));
+  if (!items) {
+    return null;
+  }
+
+  const percentiles = items.map(Number);
+  if (percentiles.some(p => !Number.isFinite(p) || p < 0 || p > 100)) {
+    return null;
+  }
+  return percentiles.sort((a, b) => a - b);
+}
+
+/**
+ * Parses the field query parameter: `value` for event values, or `properties.<name>` for a numeric event property
+ * @returns The property name, undefined for event values, or null if the field is malformed
+ */
+export const parseField = (value: unknown): string | undefined | null => {
+  if (value === undefined || value === VALUE_FIELD) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.startsWith(PROPERTY_FIELD_PREFIX) || value.length === PROPERTY_FIELD_PREFIX.length) {
+    return null;
+  }
+  return value.slice(PROPERTY_FIELD_PREFIX.length);
+}
+
+/**
+ * Aggregates buckets by joining their pre-aggregated per-user counts with a reference table snapshot.
+ * Unless exact counting is requested, unique users are estimated by merging the buckets' user sketches
+ * and subtracting the (exactly counted) unknown users, which avoids holding every user ID in a Set.
+ * Filtered queries always count exactly since sketches cannot be filtered, and so do event time enriched queries
+ * since a user may be unknown in one bucket's generation and known in another's
+ */
+export const aggregateBuckets = (
+  buckets: CountBucket[],
+  userReferenceTable: UserReferenceTable,
+  { groupBy, attributeValues, crosstab = [], filters = {}, exact = false, referenceTableAt, field }: AggregationOptions,
+): Aggregation => {
+  const useSketch = !exact && !referenceTableAt
+    && !filters.types && !filters.userIds && !filters.attributes
+    && buckets.length > 0 && buckets.every(bucket => bucket.userSketch);
+
+  const aggregation: Aggregation = {
+    totalEvents: 0,
+    uniqueUserCount: 0,
+    uniqueUsersExact: !useSketch,
+    unknown: 0,
+    byType: new Map(EVENT_TYPES.map(type => [type, 0])),
+    byAttribute: new Map(groupBy.map(attribute => [attribute, seedCounts(attributeValues.get(attribute))])),
+    values: new Map(),
+    valuesByAttribute: new Map(groupBy.map(attribute => [attribute, seedValues(attributeValues.get(attribute))])),
+    field: new ValueSummary(),
+    fieldByAttribute: new Map(field === undefined ? [] : groupBy.map(attribute => [attribute, seedSummaries(attributeValues.get(attribute))])),
+    crosstab: new Map(),
+  }
+  const knownUsers = new Set<string>();
+  const unknownUsers = new Set<string>();
+
+  for (const bucket of buckets) {
+    const bucketReferenceTable = referenceTableAt?.(bucket.sec) ?? userReferenceTable;
+    for (const [userId, userCounts] of selectUsers(bucket, filters.userIds)) {
+      const userInfo = bucketReferenceTable.get(userId);
+      if (!matchesAttributes(userInfo, filters.attributes)) {
+        continue;
+      }
+
+      const countsByType = filterTypes(userCounts.byType, filters.types);
+      const count = filters.types ? sum(countsByType.values()) : userCounts.total;
+      if (!count) {
+        continue;
+      }
+
+      const valuesByType = userCounts.values && filterTypes(userCounts.values, filters.types);
+      const propertiesByType = field !== undefined && userCounts.properties ? filterTypes(userCounts.properties, filters.types) : undefined;
+
+      aggregation.totalEvents += count;
+      for (const [type, typeCount] of countsByType) {
+        aggregation.byType.set(type, (aggregation.byType.get(type) ?? 0) + typeCount);
+      }
+      mergeValues(aggregation.values, valuesByType);
+      mergeProperty(aggregation.field, propertiesByType, field);
+      if (crosstab.length) {
+        addToCrosstab(aggregation.crosstab, crosstab, userId, countsByType, count, valuesByType, userInfo);
+      }
+
+      if (!userInfo) {
+        aggregation.unknown += count;
+        if (useSketch) {
+          unknownUsers.add(userId);
+        }
+        continue;
+      }
+
+      if (!useSketch) {
+        knownUsers.add(userId);
+      }
+      for (const [attribute, counts] of aggregation.byAttribute) {
+        const value = userInfo[attribute] ?? MISSING_ATTRIBUTE_VALUE;
+        counts.set(value, (counts.get(value) ?? 0) + count);
+
+        if (valuesByType) {
+          const valuesByValue = aggregation.valuesByAttribute.get(attribute) as Map<string, Map<string, ValueSummary>>;
+          const values = valuesByValue.get(value) ?? new Map();
+          valuesByValue.set(value, values);
+          mergeValues(values, valuesByType);
+        }
+        if (propertiesByType) {
+          const summaries = aggregation.fieldByAttribute.get(attribute) as Map<string, ValueSummary>;
+          const summary = summaries.get(value) ?? new ValueSummary();
+          summaries.set(value, summary);
+          mergeProperty(summary, propertiesByType, field);
+        }
+      }
+    }
+  }
+
+  aggregation.uniqueUserCount = useSketch
+    ? Math.max(0, mergeSketches(buckets).count() - unknownUsers.size)
+    : knownUsers.size;
+  return aggregation;
+}
+
+/**
+ * Formats per-attribute counts as `by_<attribute>` response fields
+ */
+export const formatAttributeCounts = (byAttribute: Aggregation['byAttribute']): Record<string, Record<string, number>> => {
+  return Object.fromEntries(
+    [...byAttribute].map(([attribute, counts]) => [`by_${attribute}`, Object.fromEntries(counts)]),
+  );
+}
+
+/**
+ * Formats per-attribute event values as `value_by_<attribute>` response fields
+ */
+export const formatAttributeValues = (valuesByAttribute: Aggregation['valuesByAttribute'], percentiles: number[] = DEFAULT_PERCENTILES) => {
+  return Object.fromEntries(
+    [...valuesByAttribute].map(([attribute, valuesByValue]) => [
+      `value_by_${attribute}`,
+      Object.fromEntries([...valuesByValue].map(([value, values]) => [value, formatValues(values, percentiles)])),
+    ]),
+  );
+}
+
+/**
+ * Formats per-attribute values of the requested property as `field_stats_by_<attribute>` response fields
+ */
+export const formatAttributeFieldStats = (fieldByAttribute: Aggregation['fieldByAttribute'], percentiles: number[] = DEFAULT_PERCENTILES) => {
+  return Object.fromEntries(
+    [...fieldByAttribute].map(([attribute, summaries]) => [
+      `field_stats_by_${attribute}`,
+      Object.fromEntries([...summaries].map(([value, summary]) => [value, formatSummary(summary, percentiles)])),
+    ]),
+  );
+}
+
+/**
+ * Formats event values per currency as summaries, e.g. { USD: { count: 2, sum: 30, avg: 15, ..., p50: 10 } }
+ */
+export const formatValues = (values: Map<string, ValueSummary>, percentiles: number[] = DEFAULT_PERCENTILES) => {
+  return Object.fromEntries([...values].map(([currency, summary]) => [currency, formatSummary(summary, percentiles)]));
+}
+
+/**
+ * Formats a summary as count, sum, avg, min, max and one `p<percentile>` field per percentile, e.g. p50, p99.9.
+ * Everything but count and sum is null for an empty summary
+ */
+export const formatSummary = (summary: ValueSummary, percentiles: number[] = DEFAULT_PERCENTILES) => {
+  return {
+    count: summary.count,
+    sum: summary.sum,
+    avg: summary.count ? summary.sum / summary.count : null,
+    min: summary.count ? summary.min : null,
+    max: summary.count ? summary.max : null,
+    ...Object.fromEntries(percentiles.map(p => [`p${p}`, summary.percentile(p)])),
+  };
+}
+
+/**
+ * Formats crosstab combinations as a flat list ordered by descending event count
+ */
+export const formatCrosstab = (crosstab: Aggregation['crosstab'], windowSec: number, percentiles: number[] = DEFAULT_PERCENTILES) => {
+  return [...crosstab.values()]
+    .sort((a, b) => b.count - a.count)
+    .map(row => ({
+      key: row.key,
+      count: row.count,
+      unique_users: row.users.size,
+      events_per_sec: row.count / windowSec,
+      value: formatValues(row.values, percentiles),
+    }));
+}
+
+// Every known value starts at zero, plus an explicit bucket for users missing the attribute
+const seedCounts = (values?: Set<string>): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const value of values ?? []) {
+    counts.set(value, 0);
+  }
+  counts.set(MISSING_ATTRIBUTE_VALUE, 0);
+  return counts;
+}
+
+// Every known value starts without event values, like seedCounts
+const seedValues = (values?: Set<string>): Map<string, Map<string, ValueSummary>> => {
+  return new Map([...values ?? [], MISSING_ATTRIBUTE_VALUE].map(value => [value, new Map()]));
+}
+
+// Every known value starts with an empty summary of the requested property
+const seedSummaries = (values?: Set<string>): Map<string, ValueSummary> => {
+  return new Map([...values ?? [], MISSING_ATTRIBUTE_VALUE].map(value => [value, new ValueSummary()]));
+}
+
+// Merges a user's values of one numeric property, across the event types kept
+const mergeProperty = (target: ValueSummary, propertiesByType?: ValuesByType, property?: string): void => {
+  if (property === undefined) {
+    return;
+  }
+  for (const byProperty of propertiesByType?.values() ?? []) {
+    const summary = byProperty.get(property);
+    if (summary) {
+      target.merge(summary);
+    }
+  }
+}
+
+// Merges a user's event values into per-currency summaries, for every type or only the given one
+const mergeValues = (target: Map<string, ValueSummary>, valuesByType?: ValuesByType, type?: EventType): void => {
+  for (const [valueType, byCurrency] of valuesByType ?? []) {
+    if (type && valueType !== type) {
+      continue;
+    }
+    for (const [currency, summary] of byCurrency) {
+      const merged = target.get(currency) ?? new ValueSummary();
+      merged.merge(summary);
+      target.set(currency, merged);
+    }
+  }
+}
+
+// Looks up only the filtered users instead of scanning every user in the bucket
+const selectUsers = (bucket: CountBucket, userIds?: Set<string>): Iterable<[string, UserCounts]> => {
+  if (!userIds) {
+    return bucket.userCounts;
+  }
+
+  const selected: [string, UserCounts][] = [];
+  for (const userId of userIds) {
+    const userCounts = bucket.userCounts.get(userId);
+    if (userCounts) {
+      selected.push([userId, userCounts]);
+    }
+  }
+  return selected;
+}
+
+const matchesAttributes = (userInfo?: UserAttributes, attributes?: Map<string, Set<string>>): boolean => {
+  if (!attributes) {
+    return true;
+  }
+  if (!userInfo) {
+    return false;
+  }
+
+  for (const [attribute, values] of attributes) {
+    const value = userInfo[attribute];
+    if (value === undefined || !values.has(value)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const filterTypes = <T>(byType: Map<EventType, T>, types?: Set<EventType>): Map<EventType, T> => {
+  if (!types) {
+    return byType;
+  }
+  return new Map([...byType].filter(([type]) => types.has(type)));
+}
+
+const mergeSketches = (buckets: CountBucket[]): HyperLogLog => {
+  const merged = new HyperLogLog();
+  for (const bucket of buckets) {
+    if (bucket.userSketch) {
+      merged.merge(bucket.userSketch);
+    }
+  }
+  return merged;
+}
+
+const sum = (values: Iterable<number>): number => {
+  let total = 0;
+  for (const value of values) {
+    total += value;
+  }
+  return total;
+}
+
+// Unknown users fall under UNKNOWN_USER_VALUE for every attribute dimension
+const addToCrosstab = (
+  crosstab: Aggregation['crosstab'],
+  dimensions: string[],
+  userId: string,
+  countsByType: Map<EventType, number>,
+  total: number,
+  valuesByType?: ValuesByType,
+  userInfo?: UserAttributes,
+): void => {
+  // Only split the user's events by type when type is one of the dimensions
+  const splits: [EventType | null, number][] = dimensions.includes('type')
+    ? [...countsByType]
+    : [[null, total]];
+
+  for (const [type, count] of splits) {
+    const values = dimensions.map(dimension => {
+      if (dimension === 'type') {
+        return type as EventType;
+      }
+      return userInfo ? userInfo[dimension] ?? MISSING_ATTRIBUTE_VALUE : UNKNOWN_USER_VALUE;
+    });
+
+    const serializedKey = JSON.stringify(values);
+    const row = crosstab.get(serializedKey) ?? {
+      key: Object.fromEntries(dimensions.map((dimension, i) => [dimension, values[i] as string])),
+      count: 0,
+      users: new Set<string>(),
+      values: new Map(),
+    };
+    row.count += count;
+    row.users.add(userId);
+    mergeValues(row.values, valuesByType, type ?? undefined);
+    crosstab.set(serializedKey, row);
+  }
+}
@@ -0,0 +1,229 @@
+import { HyperLogLog } from './hll.js';
+import { ValueSummary } from './values.js';
+import type { SerializedValueSummary } from './values.js';
+import type { CountBucket, Event, EventType, SerializedCountBucket, SerializedUserCounts, UserCounts } from './types.js';
+import { MISSING_ATTRIBUTE_VALUE } from './utils.js';
+
+/**
+ * RollupRing keeps pre-aggregated counts in fixed-size slots coarser than one second (e.g. 1 minute or 1 hour),
+ * so lookback queries beyond the 1s ring buffer can be answered without raw events.
+ * Slots are reused circularly like the ring buffer; a slot whose start does not match the expected second is stale and skipped.
+ * @constructor initializes one slot per resolution step of the retention, with the numeric properties to summarize
+ * @method add: counts an event in the slot covering its timestamp
+ * @method getBuckets: returns slots overlapping a range of seconds
+ * @method oldestSec: returns the first second still retained relative to a clock
+ * @method serialize: returns the retained slots in serializable form
+ * @method serializeUser: returns one user's counts in the slot covering a second in serializable form
+ * @method restore: loads slots from serialized form
+ * @method estimatedBytes: returns the approximate memory of the retained slots
+ */
+export class RollupRing {
+  private slots: CountBucket[];
+
+  constructor(
+    readonly resolutionSec: number,
+    readonly retentionSec: number,
+    private sketchUsers: boolean = false,
+    private summarizedProperties: ReadonlySet<string> = new Set(),
+  ) {
+    this.slots = Array.from({ length: retentionSec / resolutionSec }, () => createCountBucket());
+  }
+
+  /**
+   * Counts an event in the slot covering its timestamp, resetting the slot if it still holds an older period
+   */
+  add = (event: Event, eventSec: number): void => {
+    const slotSec = this.align(eventSec);
+    const index = this.indexOf(slotSec);
+    let slot = this.slots[index] as CountBucket;
+
+    // Slot already holds a newer period, this event is beyond the retention
+    if (slot.sec > slotSec) {
+      return;
+    }
+    if (slot.sec !== slotSec) {
+      slot = createCountBucket(slotSec, this.sketchUsers);
+      this.slots[index] = slot;
+    }
+
+    countEvent(slot, event, { summarizedProperties: this.summarizedProperties });
+  }
+
+  /**
+   * Returns slots overlapping [fromSec, toSec], oldest first. The first slot may start before fromSec
+   */
+  getBuckets = (fromSec: number, toSec: number): CountBucket[] => {
+    const buckets: CountBucket[] = [];
+    for (let slotSec = this.align(fromSec); slotSec <= toSec; slotSec += this.resolutionSec) {
+      const slot = this.slots[this.indexOf(slotSec)];
+      if (slot && slot.sec === slotSec) {
+        buckets.push(slot);
+      }
+    }
+    return buckets;
+  }
+
+  /**
+   * Returns the first second of the oldest slot retained when the clock is at nowSec
+   */
+  oldestSec = (nowSec: number): number => {
+    return this.align(nowSec) - this.retentionSec + this.resolutionSec;
+  }
+
+  serialize = (): SerializedCountBucket[] => {
+    return this.slots
+      .filter(slot => slot.sec !== 0)
+      .map(slot => ({
+        sec: slot.sec,
+        users: [...slot.userCounts].map(([userId, counts]) => serializeUserCounts(userId, counts)),
+      }));
+  }
+
+  /**
+   * Returns one user's counts in the slot covering a second, e.g. to store them after add, or undefined if it has none
+   */
+  serializeUser = (sec: number, userId: string): SerializedUserCounts | undefined => {
+    const slotSec = this.align(sec);
+    const slot = this.slots[this.indexOf(slotSec)];
+    const counts = slot?.sec === slotSec ? slot.userCounts.get(userId) : undefined;
+    return counts && serializeUserCounts(userId, counts);
+  }
+
+  /**
+   * Loads slots from serialized form, skipping those that have aged out by nowSec
+   */
+  restore = (buckets: SerializedCountBucket[], nowSec: number): void => {
+    for (const serialized of buckets) {
+      if (serialized.sec < this.oldestSec(nowSec)) {
+        continue;
+      }
+
+      // Sketches are rebuilt from the per-user counts rather than serialized
+      const slot = createCountBucket(serialized.sec, this.sketchUsers);
+      for (const [userId, byType, values = [], properties = []] of serialized.users) {
+        for (const [type, count] of byType) {
+          countEvent(slot, { user_id: userId, type }, { count });
+        }
+        const userCounts = slot.userCounts.get(userId) as UserCounts;
+        for (const [type, currency, summary] of values) {
+          summarize(slot, userCounts.values ??= new Map(), type, currency, target => target.merge(ValueSummary.restore(summary)));
+        }
+        for (const [type, property, summary] of properties) {
+          summarize(slot, userCounts.properties ??= new Map(), type, property, target => target.merge(ValueSummary.restore(summary)));
+        }
+      }
+      this.slots[this.indexOf(serialized.sec)] = slot;
+    }
+  }
+
+  estimatedBytes = (): number => {
+    return this.slots.reduce((bytes, slot) => bytes + slot.estimatedBytes, 0);
+  }
+
+  private align = (sec: number): number => {
+    return sec - (sec % this.resolutionSec);
+  }
+
+  private indexOf = (slotSec: number): number => {
+    return (slotSec / this.resolutionSec) % this.slots.length;
+  }
+}
+
+export const createCountBucket = (sec: number = 0, sketchUsers: boolean = false): CountBucket => {
+  const userSketch = sketchUsers ? new HyperLogLog() : undefined;
+  return {
+    sec,
+    userCounts: new Map(),
+    typeCounts: new Map(),
+    ...(userSketch && { userSketch }),
+    estimatedBytes: userSketch?.estimatedBytes() ?? 0,
+  };
+}
+
+export type CountOptions = {
+  count?: number; // events the counts stand for, defaults to 1
+  summarizedProperties?: ReadonlySet<string>; // numeric properties summarized per user, none by default
+}
+
+/**
+ * Adds an event to a bucket's running per-user and per-type counts, its value summary if it carries a value,
+ * a summary per summarized numeric property, and its user sketch if it keeps one
+ */
+export const countEvent = (
+  bucket: CountBucket,
+  event: Pick<Event, 'user_id' | 'type' | 'value' | 'currency' | 'properties'>,
+  { count = 1, summarizedProperties }: CountOptions = {},
+): void => {
+  let userCounts = bucket.userCounts.get(event.user_id);
+  if (!userCounts) {
+    userCounts = { total: 0, byType: new Map() };
+    bucket.userCounts.set(event.user_id, userCounts);
+    bucket.estimatedBytes += USER_COUNTS_BYTES + 2 * event.user_id.length;
+  }
+  if (!userCounts.byType.has(event.type)) {
+    bucket.estimatedBytes += TYPE_COUNT_BYTES;
+  }
+  userCounts.total += count;
+  userCounts.byType.set(event.type, (userCounts.byType.get(event.type) ?? 0) + count);
+
+  const { value } = event;
+  if (value !== undefined) {
+    summarize(bucket, userCounts.values ??= new Map(), event.type, event.currency ?? MISSING_ATTRIBUTE_VALUE, summary => summary.add(value));
+  }
+  for (const [property, propertyValue] of Object.entries(event.properties ?? {})) {
+    if (typeof propertyValue === 'number' && summarizedProperties?.has(property)) {
+      summarize(bucket, userCounts.properties ??= new Map(), event.type, property, summary => summary.add(propertyValue));
+    }
+  }
+  bucket.typeCounts.set(event.type, (bucket.typeCounts.get(event.type) ?? 0) + count);
+  bucket.userSketch?.add(event.user_id);
+}
+
+type SummariesByType = Map<EventType, Map<string, ValueSummary>>;
+
+// Approximate memory of a user's entry in a bucket, of each event type counted for it,
+// and of the maps holding a user's summaries of one event type, measured on V8
+const USER_COUNTS_BYTES = 250;
+const TYPE_COUNT_BYTES = 40;
+const SUMMARY_MAPS_BYTES = 380;
+
+const serializeUserCounts = (userId: string, counts: UserCounts): SerializedUserCounts => {
+  if (!counts.values && !counts.properties) {
+    return [userId, [...counts.byType]];
+  }
+  const values = counts.values ? serializeSummaries(counts.values) : [];
+  return counts.properties
+    ? [userId, [...counts.byType], values, serializeSummaries(counts.properties)]
+    : [userId, [...counts.byType], values];
+}
+
+const serializeSummaries = (summaries: SummariesByType): [EventType, string, SerializedValueSummary][] => {
+  return [...summaries].flatMap(([type, byKey]) =>
+    [...byKey].map(([key, summary]): [EventType, string, SerializedValueSummary] => [type, key, summary.serialize()]));
+}
+
+// Updates the summary for an event type and currency or property name, creating it on first use,
+// and adds any growth of the summary to its bucket's estimated size
+const summarize = (
+  bucket: CountBucket,
+  summaries: SummariesByType,
+  type: EventType,
+  key: string,
+  update: (summary: ValueSummary) => void,
+): void => {
+  let byKey = summaries.get(type);
+  if (!byKey) {
+    byKey = new Map();
+    summaries.set(type, byKey);
+    bucket.estimatedBytes += SUMMARY_MAPS_BYTES;
+  }
+
+  let summary = byKey.get(key);
+  const bytesBefore = summary?.estimatedBytes() ?? 0;
+  if (!summary) {
+    summary = new ValueSummary();
+    byKey.set(key, summary);
+  }
+  update(summary);
+  bucket.estimatedBytes += summary.estimatedBytes() - bytesBefore;
+}
@@ -0,0 +1,524 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import type { Bucket, EnrichedEvent, Event, ReferenceGeneration, SerializedCountBucket, SerializedUserCounts, TieredWindow, UserAttributes, UserMetadata, UserReferencePatch, UserReferenceTable } from './types.js';
+import type { DedupStats } from './dedup.js';
+import { RollupRing, countEvent, createCountBucket } from './rollups.js';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+import { parseTimestamp } from './utils.js';
+import { checkEvent, checkReferenceWrite, combineTiers, enrichWithTable, indexAttributeValues } from './store.js';
+import type { Store, StoreUsage, WindowTier } from './store.js';
+
+// Rollups are stored per user and slot, so ingesting an event rewrites the counts of one user rather than a whole slot.
+// Users are stored once per change and are part of every generation from valid_from until the version that replaced them.
+// A new database starts at version 0, the empty table
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (sec INTEGER NOT NULL, event TEXT NOT NULL);
+  CREATE INDEX IF NOT EXISTS events_sec ON events (sec);
+  CREATE TABLE IF NOT EXISTS rollup_users (resolution_sec INTEGER NOT NULL, sec INTEGER NOT NULL, user_id TEXT NOT NULL, counts TEXT NOT NULL, PRIMARY KEY (resolution_sec, sec, user_id)) WITHOUT ROWID;
+  CREATE TABLE IF NOT EXISTS seen_event_ids (event_id TEXT PRIMARY KEY, sec INTEGER NOT NULL) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS seen_event_ids_sec ON seen_event_ids (sec);
+  CREATE TABLE IF NOT EXISTS reference_versions (version INTEGER PRIMARY KEY, effective_sec INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS reference_users (user_id TEXT NOT NULL, attributes TEXT NOT NULL, valid_from INTEGER NOT NULL, valid_to INTEGER);
+  CREATE INDEX IF NOT EXISTS reference_users_current ON reference_users (user_id) WHERE valid_to IS NULL;
+  CREATE TABLE IF NOT EXISTS reference_attribute_values (attribute TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (attribute, value)) WITHOUT ROWID;
+  INSERT INTO reference_versions SELECT 0, 0 WHERE NOT EXISTS (SELECT 1 FROM reference_versions);
+`;
+
+type ReferenceVersion = Omit<ReferenceGeneration, 'table'>;
+
+type Statements = Record<
+  | 'insertEvent' | 'selectEvents' | 'pruneEvents' | 'countEvents' | 'databaseSize'
+  | 'upsertRollupUser' | 'selectRollupUsers' | 'pruneRollupUsers'
+  | 'hasEventId' | 'insertEventId' | 'expireEventIds' | 'dedupStats'
+  | 'insertVersion' | 'deleteVersions' | 'insertUser' | 'retireUser' | 'retireAllUsers' | 'selectUsersAt' | 'deleteRetiredUsers'
+  | 'insertAttributeValue' | 'clearAttributeValues' | 'reindexAttributeValues' | 'selectAttributeValues',
+  StatementSync
+>;
+
+/**
+ * SqliteStore keeps events, seen event IDs, rollups and reference table generations in a local SQLite database file,
+ * so a restart loses nothing that was acknowledged. Events are kept for the ring buffer retention and 1s buckets are
+ * counted from them per query; rollups are updated with every event and cached in memory, so longer lookbacks read no events.
+ * The current reference table is cached in memory, older generations are loaded on first use.
+ * Needs node:sqlite, available from Node.js 22.13 (22.5 with --experimental-sqlite)
+ * @constructor opens or creates the database at the configured path and loads the rollups and current reference table
+ * @method validateEvent: validates an event object against clock and duplicate checks
+ * @method enrichEvent: enriches an event with user metadata
+ * @method updateReferenceTable: updates the user reference table using last-write-wins
+ * @method patchReferenceTable: upserts and deletes individual users on top of a given reference table version
+ * @method getReferenceVersion: returns the current reference table version
+ * @method getReferenceTimestamp: returns the timestamp of the current reference table version
+ * @method getDedupStats: returns size and expiry counters of the deduplication table
+ * @method getUsage: returns the events and reference users held, and the database size plus the rollups held in memory
+ * @method getReferenceTable: returns the current user reference table
+ * @method getReferenceTableAt: returns the user reference table generation that was active at a given second
+ * @method getReferenceAttributeValues: returns the distinct values seen for each reference table attribute
+ * @method updateRingBuffer: stores an event and counts it in the rollups
+ * @method advanceSlidingWindow: advances the sliding window, expiring event IDs, events and rollups beyond their retention
+ * @method getWindowSec: returns the second the sliding window has advanced to
+ * @method getLookbackWindow: returns the lookback window in 1s buckets
+ * @method getTieredWindow: returns the lookback window in 1s, 1 minute or 1 hour buckets
+ * @method flush: does nothing, every write is committed as it is made
+ * @method close: closes the database
+ */
+export class SqliteStore implements Store {
+  private db: DatabaseSync;
+  private statements: Statements;
+  private rollups: RollupRing[]; // coarser tiers for lookbacks beyond the events kept, finest first
+  private summarizedProperties: ReadonlySet<string>; // numeric event properties summarized per user in every bucket
+  private tiers: WindowTier[]; // resolutions lookbacks are answered in, finest first
+  private currentSec: number = 0; // second the sliding window has advanced to
+  private expiredTotal: number = 0; // event IDs expired since startup
+  private pendingEventIds: Map<string, number> = new Map(); // validated event ID -> event second, until stored with its event
+
+  private userReferenceTable: UserReferenceTable = new Map();
+  private userReferenceTableTimestamp: number = 0;
+  private userReferenceTableUpdateCount: number = 0;
+  private userReferenceAttributeValues: Map<string, Set<string>> = new Map();
+  private userReferenceHistory: ReferenceVersion[] = []; // generations still kept, oldest first
+  private generations: Map<number, UserReferenceTable> = new Map(); // version -> table, for generations loaded or replaced since startup
+
+  constructor(private config: Config = DEFAULT_CONFIG) {
+    const { DatabaseSync } = loadSqlite();
+    if (config.sqlitePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(config.sqlitePath), { recursive: true });
+    }
+
+    this.db = new DatabaseSync(config.sqlitePath);
+    // WAL lets queries read while an event is written, NORMAL sync is still durable against process crashes
+    this.db.exec('PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;');
+    this.db.exec(SCHEMA);
+    this.statements = prepareStatements(this.db);
+
+    this.summarizedProperties = new Set(config.summarizedProperties);
+    this.rollups = [
+      new RollupRing(60, config.minuteRollupRetentionSec, config.uniqueUsersSketch, this.summarizedProperties),
+      new RollupRing(3600, config.hourRollupRetentionSec, config.uniqueUsersSketch, this.summarizedProperties),
+    ];
+    this.tiers = [
+      {
+        resolutionSec: 1,
+        oldestSec: (now: number) => now - config.maxRetentionSec + 1,
+        getBuckets: (from: number, to: number) => this.getLookbackWindow(to - from + 1, to),
+      },
+      ...this.rollups,
+    ];
+    this.loadRollups();
+    this.loadReferenceTable();
+  }
+
+  /**
+   * Validates an event object against the event schema, clock and duplicate checks
+   * @param clockSec - timestamp in seconds to compare event timestamp against, defaults to current time
+   * @returns True if the event is valid, @throws ValidationError otherwise
+   */
+  validateEvent = (event: Event, clockSec?: number): boolean => {
+    const now = clockSec ?? Math.floor(Date.now() / 1000);
+    const isDuplicate = (eventId: string) => this.pendingEventIds.has(eventId) || this.statements.hasEventId.get(eventId) !== undefined;
+    const eventTs = checkEvent(event, now, this.config, isDuplicate);
+
+    // Written by updateRingBuffer in the same transaction as the event, so a crash cannot keep the ID of a lost event
+    this.pendingEventIds.set(event.event_id, eventTs);
+    return true;
+  }
+
+  enrichEvent = (event: Event, userReferenceTable?: UserReferenceTable): EnrichedEvent => {
+    return enrichWithTable(event, userReferenceTable ?? this.userReferenceTable);
+  }
+
+  /**
+   * Replaces the user reference table using last-write-wins strategy, or only if it is still at an expected version
+   * @param expectedVersion - version the update was made against (optional)
+   * @throws VersionConflictError if expectedVersion is not the current version
+   * @throws Error if update timestamp is older than the current reference table timestamp
+   */
+  updateReferenceTable = (userMetadata: UserMetadata, timestamp: string, expectedVersion?: number): void => {
+    const updateTs = parseTimestamp(timestamp);
+    checkReferenceWrite(updateTs, expectedVersion, this.userReferenceTableUpdateCount, this.userReferenceTableTimestamp);
+
+    const userReferenceTable = new Map(Object.entries(userMetadata));
+    this.swapReferenceTable(updateTs, userReferenceTable, userReferenceTable);
+    console.log(`Reference table updated to version ${this.userReferenceTableUpdateCount} (timestamp: ${timestamp})`);
+  }
+
+  /**
+   * Upserts and deletes individual users on top of a given reference table version, in one transaction
+   * @param baseVersion - reference table version the patch was made against
+   * @throws VersionConflictError if baseVersion is not the current version
+   * @throws Error if the patch timestamp is older than the current reference table timestamp
+   */
+  patchReferenceTable = (patch: UserReferencePatch, timestamp: string, baseVersion: number): void => {
+    const updateTs = parseTimestamp(timestamp);
+    checkReferenceWrite(updateTs, baseVersion, this.userReferenceTableUpdateCount, this.userReferenceTableTimestamp);
+
+    const upserts = new Map(Object.entries(patch.upsert));
+    const userReferenceTable = new Map(this.userReferenceTable);
+    for (const [userId, attributes] of upserts) {
+      userReferenceTable.set(userId, attributes);
+    }
+    for (const userId of patch.delete) {
+      userReferenceTable.delete(userId);
+    }
+
+    this.swapReferenceTable(updateTs, userReferenceTable, upserts, [...upserts.keys(), ...patch.delete]);
+    console.log(`Reference table patched to version ${this.userReferenceTableUpdateCount} (timestamp: ${timestamp})`);
+  }
+
+  getReferenceVersion = (): number => {
+    return this.userReferenceTableUpdateCount;
+  }
+
+  getReferenceTimestamp = (): number => {
+    return this.userReferenceTableTimestamp;
+  }
+
+  getDedupStats = (): DedupStats => {
+    const { size, oldest } = this.statements.dedupStats.get() as { size: number; oldest: number | null };
+    const oldestSec = Math.min(oldest ?? Infinity, ...this.pendingEventIds.values());
+    return {
+      size: size + this.pendingEventIds.size,
+      horizon_sec: this.config.maxRetentionSec,
+      oldest_sec: oldestSec === Infinity ? null : oldestSec,
+      expired_total: this.expiredTotal,
+    };
+  }
+
+  getUsage = (): StoreUsage => {
+    const { events } = this.statements.countEvents.get(this.currentSec - this.config.maxRetentionSec) as { events: number };
+    const { bytes } = this.statements.databaseSize.get() as { bytes: number };
+    // The rollups are also held in memory, loaded from the database at startup
+    const rollupBytes = this.rollups.reduce((total, rollup) => total + rollup.estimatedBytes(), 0);
+    return { events, reference_users: this.userReferenceTable.size, estimated_bytes: bytes + rollupBytes };
+  }
+
+  getReferenceTable = (): UserReferenceTable => {
+    return this.userReferenceTable;
+  }
+
+  /**
+   * Returns the reference table generation that was active at a given second, for event time enrichment.
+   * Seconds before the oldest generation still kept fall back to that generation
+   */
+  getReferenceTableAt = (sec: number): UserReferenceTable => {
+    if (sec >= this.userReferenceTableTimestamp) {
+      return this.userReferenceTable;
+    }
+
+    for (let i = this.userReferenceHistory.length - 1; i >= 0; i--) {
+      const generation = this.userReferenceHistory[i] as ReferenceVersion;
+      if (generation.effectiveSec <= sec || i === 0) {
+        return this.loadGeneration(generation.version);
+      }
+    }
+    return this.userReferenceTable;
+  }
+
+  getReferenceAttributeValues = (): Map<string, Set<string>> => {
+    return this.userReferenceAttributeValues;
+  }
+
+  /**
+   * Stores an event together with its event ID and its user's updated rollup counts, and advances the sliding window if necessary
+   * @param clockSec - timestamp in seconds to compare event timestamp against, defaults to current time
+   * @throws Error if event timestamp is more than the configured retention (maxRetentionSec) away from clockSec
+   */
+  updateRingBuffer = (event: Event, clockSec?: number): void => {
+    const now = clockSec ?? Math.floor(Date.now() / 1000);
+    const eventSec = parseTimestamp(event.ts);
+
+    if (this.currentSec === 0) {
+      this.currentSec = eventSec;
+    }
+    if (now > this.currentSec) {
+      this.advanceSlidingWindow(now);
+    }
+    if (Math.abs(eventSec - this.currentSec) > this.config.maxRetentionSec) {
+      throw new Error(`Event timestamp is more than ${this.config.maxRetentionSec} seconds away from current time`);
+    }
+
+    this.transaction(() => {
+      this.statements.insertEventId.run(event.event_id, eventSec);
+      this.statements.insertEvent.run(eventSec, JSON.stringify(event));
+      for (const rollup of this.rollups) {
+        rollup.add(event, eventSec);
+        const counts = rollup.serializeUser(eventSec, event.user_id);
+        if (counts) {
+          this.statements.upsertRollupUser.run(rollup.resolutionSec, eventSec - (eventSec % rollup.resolutionSec), event.user_id, JSON.stringify(counts));
+        }
+      }
+    });
+    this.pendingEventIds.delete(event.event_id);
+  }
+
+  /**
+   * Advances the sliding window to the target second, expiring event IDs and events beyond the retention
+   * and rollup slots beyond their rollup's retention
+   * @param targetSec - timestamp to advance to in seconds, defaults to current time
+   * @throws Error if targetSec is less than the sliding window timestamp
+   */
+  advanceSlidingWindow = (targetSec?: number): void => {
+    const advanceTo = targetSec ?? Math.floor(Date.now() / 1000);
+
+    if (this.currentSec === 0) {
+      this.currentSec = advanceTo;
+      return;
+    }
+    if (advanceTo < this.currentSec) {
+      throw new Error(`Cannot advance sliding window backwards: ${this.currentSec} -> ${advanceTo}. Current time is ${new Date(this.currentSec * 1000).toISOString()}`);
+    }
+    if (advanceTo === this.currentSec) {
+      return;
+    }
+
+    const horizonSec = advanceTo - this.config.maxRetentionSec;
+    const { changes } = this.statements.expireEventIds.run(horizonSec);
+    this.expiredTotal += Number(changes);
+    // IDs of validated events the sliding window refused were never written
+    for (const [eventId, sec] of this.pendingEventIds) {
+      if (sec <= horizonSec) {
+        this.pendingEventIds.delete(eventId);
+        this.expiredTotal++;
+      }
+    }
+    this.statements.pruneEvents.run(horizonSec + 1);
+    for (const rollup of this.rollups) {
+      this.statements.pruneRollupUsers.run(rollup.resolutionSec, rollup.oldestSec(advanceTo));
+    }
+    this.pruneReferenceHistory(advanceTo);
+
+    this.currentSec = advanceTo;
+  }
+
+  getWindowSec = (): number => {
+    return this.currentSec;
+  }
+
+  /**
+   * Returns the lookback window for a given window size and query end timestamp, in 1s buckets holding their events
+   * @param windowSec - size of the lookback window in seconds
+   * @param queryEndSec - timestamp to query up to in seconds
+   */
+  getLookbackWindow = (windowSec: number, queryEndSec: number): Bucket[] => {
+    if (windowSec > this.config.maxRetentionSec) {
+      throw new Error(`Window parameter exceeds maximum lookback window of ${this.config.maxRetentionSec}s`);
+    }
+
+    // Like the ring buffer, only seconds within the retention of the sliding window are answered
+    const windowStart = Math.max(queryEndSec - windowSec + 1, this.currentSec - this.config.maxRetentionSec + 1);
+    return this.countEvents(windowStart, queryEndSec);
+  }
+
+  /**
+   * Returns the lookback window in buckets of the finest resolution still retaining each part, see combineTiers
+   * @throws Error if windowSec exceeds the longest rollup retention
+   */
+  getTieredWindow = (windowSec: number, queryEndSec: number): TieredWindow => {
+    const maxLookbackSec = this.getMaxLookbackSec();
+    if (windowSec > maxLookbackSec) {
+      throw new Error(`Window parameter exceeds maximum lookback window of ${maxLookbackSec}s`);
+    }
+
+    if (windowSec <= this.config.maxRetentionSec) {
+      return { buckets: this.getLookbackWindow(windowSec, queryEndSec), startSec: queryEndSec - windowSec + 1, resolutionSec: 1 };
+    }
+    return combineTiers(this.tiers, windowSec, queryEndSec);
+  }
+
+  getMaxLookbackSec = (): number => {
+    return this.config.hourRollupRetentionSec;
+  }
+
+  flush = (): void => {}
+
+  close = (): void => {
+    this.db.close();
+  }
+
+  // Counts events in [fromSec, toSec] into 1s buckets holding their events, oldest first
+  private countEvents = (fromSec: number, toSec: number): Bucket[] => {
+    const buckets: Map<number, Bucket> = new Map();
+    const rows = this.statements.selectEvents.all(fromSec, toSec) as { sec: number; event: string }[];
+
+    for (const { sec, event } of rows) {
+      const bucket = buckets.get(sec) ?? { ...createCountBucket(sec, this.config.uniqueUsersSketch), events: [] };
+      buckets.set(sec, bucket);
+
+      const parsed: Event = JSON.parse(event);
+      bucket.events.push(parsed);
+      countEvent(bucket, parsed, { summarizedProperties: this.summarizedProperties });
+    }
+    return [...buckets.values()];
+  }
+
+  // Rebuilds the in-memory rollups from their stored per-user rows
+  private loadRollups = (): void => {
+    const rows = this.statements.selectRollupUsers.all() as { resolution_sec: number; sec: number; counts: string }[];
+    for (const rollup of this.rollups) {
+      const buckets: Map<number, SerializedCountBucket> = new Map();
+      for (const { resolution_sec, sec, counts } of rows) {
+        if (resolution_sec === rollup.resolutionSec) {
+          const bucket = buckets.get(sec) ?? { sec, users: [] };
+          bucket.users.push(JSON.parse(counts) as SerializedUserCounts);
+          buckets.set(sec, bucket);
+        }
+      }
+      rollup.restore([...buckets.values()], Math.floor(Date.now() / 1000));
+    }
+  }
+
+  // Writes the next generation in one transaction: users it retires end at the new version, users it changes start there
+  private swapReferenceTable = (updateTs: number, userReferenceTable: UserReferenceTable, changed: UserReferenceTable, retiredUserIds?: string[]): void => {
+    const version = this.userReferenceTableUpdateCount + 1;
+
+    this.transaction(() => {
+      if (retiredUserIds) {
+        retiredUserIds.forEach(userId => this.statements.retireUser.run(version, userId));
+      } else {
+        this.statements.retireAllUsers.run(version);
+      }
+      for (const [userId, attributes] of changed) {
+        this.statements.insertUser.run(userId, JSON.stringify(attributes), version);
+        Object.entries(attributes).forEach(([attribute, value]) => this.statements.insertAttributeValue.run(attribute, value));
+      }
+      this.statements.insertVersion.run(version, updateTs);
+    });
+
+    // Keeps the generation being replaced so events before the swap can still be enriched as of their timestamp
+    this.userReferenceHistory.push({ version: this.userReferenceTableUpdateCount, effectiveSec: this.userReferenceTableTimestamp });
+    this.generations.set(this.userReferenceTableUpdateCount, this.userReferenceTable);
+
+    this.userReferenceTable = userReferenceTable;
+    indexAttributeValues(changed, this.userReferenceAttributeValues);
+    this.userReferenceTableTimestamp = updateTs;
+    this.userReferenceTableUpdateCount = version;
+    this.pruneReferenceHistory();
+  }
+
+  // Runs writes so that either all of them or none are committed
+  private transaction = (writes: () => void): void => {
+    this.db.exec('BEGIN');
+    try {
+      writes();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private loadReferenceTable = (): void => {
+    const versions = this.db.prepare('SELECT version, effective_sec AS effectiveSec FROM reference_versions ORDER BY version').all() as ReferenceVersion[];
+    const current = versions.pop() as ReferenceVersion;
+
+    this.userReferenceTable = this.loadGeneration(current.version);
+    this.generations.delete(current.version);
+    this.userReferenceTableTimestamp = current.effectiveSec;
+    this.userReferenceTableUpdateCount = current.version;
+    this.userReferenceHistory = versions;
+
+    this.loadAttributeValues();
+    this.pruneReferenceHistory();
+  }
+
+  private loadAttributeValues = (): void => {
+    this.userReferenceAttributeValues = new Map();
+    const rows = this.statements.selectAttributeValues.all() as { attribute: string; value: string }[];
+    for (const { attribute, value } of rows) {
+      const values = this.userReferenceAttributeValues.get(attribute) ?? new Set<string>();
+      values.add(value);
+      this.userReferenceAttributeValues.set(attribute, values);
+    }
+  }
+
+  private loadGeneration = (version: number): UserReferenceTable => {
+    let table = this.generations.get(version);
+    if (!table) {
+      const rows = this.statements.selectUsersAt.all(version, version) as { user_id: string; attributes: string }[];
+      table = new Map(rows.map(({ user_id, attributes }): [string, UserAttributes] => [user_id, JSON.parse(attributes)]));
+      this.generations.set(version, table);
+    }
+    return table;
+  }
+
+  // Drops generations beyond the history limit and, given a clock, those replaced before the oldest second
+  // the sliding window still holds. Users only part of dropped generations are deleted with them,
+  // and the attribute value index is rebuilt from the users left
+  private pruneReferenceHistory = (nowSec?: number): void => {
+    const horizonSec = nowSec === undefined ? -Infinity : nowSec - this.config.maxRetentionSec + 1;
+    let dropped = false;
+
+    while (this.userReferenceHistory.length) {
+      const next = this.userReferenceHistory[1]?.effectiveSec ?? this.userReferenceTableTimestamp;
+      if (this.userReferenceHistory.length <= this.config.referenceHistoryLimit && next > horizonSec) {
+        break;
+      }
+      const { version } = this.userReferenceHistory.shift() as ReferenceVersion;
+      this.generations.delete(version);
+      dropped = true;
+    }
+    if (!dropped) {
+      return;
+    }
+
+    const oldestVersion = this.userReferenceHistory[0]?.version ?? this.userReferenceTableUpdateCount;
+    this.transaction(() => {
+      this.statements.deleteVersions.run(oldestVersion);
+      this.statements.deleteRetiredUsers.run(oldestVersion);
+      this.statements.clearAttributeValues.run();
+      this.statements.reindexAttributeValues.run();
+    });
+    this.loadAttributeValues();
+  }
+}
+
+/**
+ * Returns whether this Node.js runtime ships node:sqlite, which the sqlite backend needs
+ */
+export const isSqliteAvailable = (): boolean => {
+  try {
+    return loadSqlite() !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+// Loaded at runtime so the memory backend keeps working on Node.js versions without node:sqlite
+const loadSqlite = (): typeof import('node:sqlite') => {
+  const sqlite = process.getBuiltinModule?.('node:sqlite');
+  if (!sqlite) {
+    throw new Error('STORAGE_BACKEND=sqlite needs node:sqlite, available from Node.js 22.13 (22.5 with --experimental-sqlite)');
+  }
+  return sqlite;
+}
+
+const prepareStatements = (db: DatabaseSync): Statements => ({
+  insertEvent: db.prepare('INSERT INTO events (sec, event) VALUES (?, ?)'),
+  selectEvents: db.prepare('SELECT sec, event FROM events WHERE sec BETWEEN ? AND ? ORDER BY sec, rowid'),
+  pruneEvents: db.prepare('DELETE FROM events WHERE sec < ?'),
+  countEvents: db.prepare('SELECT COUNT(*) AS events FROM events WHERE sec > ?'),
+  upsertRollupUser: db.prepare(
+    'INSERT INTO rollup_users (resolution_sec, sec, user_id, counts) VALUES (?, ?, ?, ?) ON CONFLICT (resolution_sec, sec, user_id) DO UPDATE SET counts = excluded.counts',
+  ),
+  selectRollupUsers: db.prepare('SELECT resolution_sec, sec, counts FROM rollup_users'),
+  pruneRollupUsers: db.prepare('DELETE FROM rollup_users WHERE resolution_sec = ? AND sec < ?'),
+  databaseSize: db.prepare('SELECT page_count * page_size AS bytes FROM pragma_page_count(), pragma_page_size()'),
+  hasEventId: db.prepare('SELECT 1 FROM seen_event_ids WHERE event_id = ?'),
+  insertEventId: db.prepare('INSERT OR IGNORE INTO seen_event_ids (event_id, sec) VALUES (?, ?)'),
+  expireEventIds: db.prepare('DELETE FROM seen_event_ids WHERE sec <= ?'),
+  dedupStats: db.prepare('SELECT COUNT(*) AS size, MIN(sec) AS oldest FROM seen_event_ids'),
+  insertVersion: db.prepare('INSERT INTO reference_versions (version, effective_sec) VALUES (?, ?)'),
+  deleteVersions: db.prepare('DELETE FROM reference_versions WHERE version < ?'),
+  insertUser: db.prepare('INSERT INTO reference_users (user_id, attributes, valid_from) VALUES (?, ?, ?)'),
+  retireUser: db.prepare('UPDATE reference_users SET valid_to = ? WHERE user_id = ? AND valid_to IS NULL'),
+  retireAllUsers: db.prepare('UPDATE reference_users SET valid_to = ? WHERE valid_to IS NULL'),
+  selectUsersAt: db.prepare('SELECT user_id, attributes FROM reference_users WHERE valid_from <= ? AND (valid_to IS NULL OR valid_to > ?)'),
+  deleteRetiredUsers: db.prepare('DELETE FROM reference_users WHERE valid_to <= ?'),
+  insertAttributeValue: db.prepare('INSERT OR IGNORE INTO reference_attribute_values (attribute, value) VALUES (?, ?)'),
+  clearAttributeValues: db.prepare('DELETE FROM reference_attribute_values'),
+  reindexAttributeValues: db.prepare(
+    'INSERT OR IGNORE INTO reference_attribute_values (attribute, value) SELECT attribute.key, attribute.value FROM reference_users, json_each(reference_users.attributes) AS attribute',
+  ),
+  selectAttributeValues: db.prepare('SELECT attribute, value FROM reference_attribute_values'),
+});
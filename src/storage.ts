@@ -1,67 +1,79 @@
-import type { Bucket, Event, UserReferenceTable, UserMetadata, EnrichedEvent } from './types.js';
-import { isObject, parseTimestamp, LATENESS_SEC, MAX_CLOCK_SKEW_SEC, MAX_RETENTION_SEC } from './utils.js';
+import type { Bucket, CountBucket, Event, ReferenceGeneration, UserReferenceTable, UserMetadata, UserReferencePatch, EnrichedEvent, Journal, JournalEntry, StoreSnapshot, TieredWindow } from './types.js';
+import { DedupIndex } from './dedup.js';
+import { RollupRing, countEvent, createCountBucket } from './rollups.js';
+import type { DedupStats } from './dedup.js';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+import { estimateBytes, parseTimestamp } from './utils.js';
+import { checkEvent, checkReferenceWrite, combineTiers, enrichWithTable, estimateTableBytes, indexAttributeValues } from './store.js';
+import type { Store, StoreUsage } from './store.js';
 
 /**
  * InMemoryStore manages (1) user reference table and (2) events using a ring buffer with 1s buckets for efficient sliding window queries.
- * @constructor initializes the ring buffer
+ * @constructor initializes the ring buffer, rollups and dedup index sized to the configured retention
  * @method validateEvent: validates an event object against clock and duplicate checks
  * @method enrichEvent: enriches an event with user metadata
  * @method updateReferenceTable: updates the user reference table using last-write-wins
+ * @method patchReferenceTable: upserts and deletes individual users on top of a given reference table version
+ * @method getReferenceVersion: returns the current reference table version
+ * @method getReferenceTimestamp: returns the timestamp of the current reference table version
+ * @method getDedupStats: returns size and expiry counters of the deduplication index
+ * @method getUsage: returns the events and reference users held and their estimated memory, aggregates included
  * @method getReferenceTable: returns the current user reference table
+ * @method getReferenceTableAt: returns the user reference table generation that was active at a given second
+ * @method getReferenceAttributeValues: returns the distinct values seen for each reference table attribute
  * @method updateRingBuffer: ingests event object and updates the ring buffer
  * @method advanceSlidingWindow: advances the sliding window
+ * @method getWindowSec: returns the second the sliding window has advanced to
  * @method getLookbackWindow: returns the lookback window
+ * @method getTieredWindow: returns the lookback window combined from the ring buffer and coarser rollups
+ * @method attachJournal: records accepted events and reference updates to a write-ahead log
+ * @method flush: writes the journal entries buffered since the last flush
+ * @method toSnapshot: returns a serializable copy of the store state
+ * @method restoreSnapshot: restores store state from a snapshot
+ * @method replay: re-applies a write-ahead log entry
  */
-export class InMemoryStore {
+export class InMemoryStore implements Store {
   private ringBuffer: Bucket[];
+  private ringBufferBytes: number[]; // estimated size of each bucket's events
+  private eventCount: number = 0; // events across the ring buffer
+  private eventBytes: number = 0;
   private currentSec: number = 0; // second the sliding window has advanced to
+  private rollups: RollupRing[]; // coarser tiers for lookbacks beyond the ring buffer, finest first
+  private summarizedProperties: ReadonlySet<string>; // numeric event properties summarized per user in every bucket
 
   private userReferenceTable: UserReferenceTable = new Map();
   private userReferenceTableTimestamp: number = 0;
   private userReferenceTableUpdateCount: number = 0;
+  private userReferenceAttributeValues: Map<string, Set<string>> = new Map(); // attribute -> distinct values in the generations kept
+  private userReferenceHistory: ReferenceGeneration[] = []; // generations replaced within the retention, oldest first
+  private userReferenceTableBytes = { version: -1, bytes: 0 }; // estimated size of the current table, computed on demand per version
 
-  private seenEventIds: Set<string> = new Set();
+  private seenEventIds: DedupIndex; // expires in step with the ring buffer
+
+  private journal?: Journal;
   
-  constructor() {
-    this.ringBuffer = Array.from({ length: MAX_RETENTION_SEC }, () => ({
-      sec: 0,
-      events: [],
-    }));
+  constructor(private config: Config = DEFAULT_CONFIG) {
+    this.ringBuffer = Array.from({ length: config.maxRetentionSec }, () => createBucket());
+    this.ringBufferBytes = new Array(config.maxRetentionSec).fill(0);
+    this.seenEventIds = new DedupIndex(config.maxRetentionSec);
+    this.summarizedProperties = new Set(config.summarizedProperties);
+    this.rollups = [
+      new RollupRing(60, config.minuteRollupRetentionSec, config.uniqueUsersSketch, this.summarizedProperties),
+      new RollupRing(3600, config.hourRollupRetentionSec, config.uniqueUsersSketch, this.summarizedProperties),
+    ];
   }
 
   /**
-   * Validates an event object against clock and duplicate checks
+   * Validates an event object against the event schema, clock and duplicate checks
    * @param clockSec - timestamp in seconds to compare event timestamp against, defaults to current time
-   * @returns True if the event is valid, @throws Error otherwise
+   * @returns True if the event is valid, @throws ValidationError otherwise
    */
   validateEvent = (event: Event, clockSec?: number): boolean => {
-    // Reject invalid event type
-    if (!(isObject(event))) {
-      throw new Error('Event must be an object');
-    }
-
-    // Reject events with missing fields
-    if (!event.event_id || !event.user_id || !event.type || !event.ts) {
-      throw new Error(`Event ${event.event_id} is missing required fields`);
-    }
+    const eventTs = checkEvent(event, clockSec ?? Math.floor(Date.now() / 1000), this.config, this.seenEventIds.has);
 
-    // Reject duplicates based on event_id
-    if (this.seenEventIds.has(event.event_id)) {
-      throw new Error(`Event ${event.event_id} already seen`);
-    }
-
-    // Reject invalid timestamps, clock skew, and late events
-    const eventTs = parseTimestamp(event.ts);
-    const now = clockSec ?? Math.floor(Date.now() / 1000);
-    if ((eventTs - now) > MAX_CLOCK_SKEW_SEC) {
-      throw new Error(`Event ${event.event_id} timestamp is more than 2 minutes skewed.`);
-    } 
-    if (eventTs < now - LATENESS_SEC) {
-      throw new Error(`Event ${event.event_id} timestamp is outside the 2 minute lateness threshold.`);
-    }
-    
     // Mark valid event as seen
-    this.seenEventIds.add(event.event_id);
+    this.seenEventIds.add(event.event_id, eventTs);
     return true
   }
 
@@ -71,55 +83,148 @@ export class InMemoryStore {
    * @returns Enriched event if user metadata is available, original event otherwise
    */
   enrichEvent = (event: Event, userReferenceTable?: UserReferenceTable): EnrichedEvent => {
-    const tableSnapshot = userReferenceTable ?? this.userReferenceTable;
-    const userInfo = tableSnapshot.get(event.user_id);
-
-    if (!userInfo) { return event }
-
-    return { 
-      ...event, 
-      metadata: {
-        user: {
-          plan: userInfo.plan,
-          region: userInfo.region
-        }
-      }
-    };
+    return enrichWithTable(event, userReferenceTable ?? this.userReferenceTable);
   }
 
   /**
-   * Updates the user reference table using last-write-wins strategy
+   * Updates the user reference table using last-write-wins strategy, or only if it is still at an expected version
+   * @param expectedVersion - version the update was made against, checked in the same step as the swap (optional)
+   * @throws VersionConflictError if expectedVersion is not the current version
    * @throws Error if update timestamp is older than the current reference table timestamp
    */
-  updateReferenceTable = (userMetadata: UserMetadata, timestamp: string): void => {
+  updateReferenceTable = (userMetadata: UserMetadata, timestamp: string, expectedVersion?: number): void => {
     const updateTs = parseTimestamp(timestamp);
 
-    // last-write-wins
-    if (updateTs < this.userReferenceTableTimestamp) {
-      throw new Error(
-        `Stale update: timestamp is older than current version. Current version is ${new Date(this.userReferenceTableTimestamp * 1000).toISOString()}`,
-      )
-    }
+    checkReferenceWrite(updateTs, expectedVersion, this.userReferenceTableUpdateCount, this.userReferenceTableTimestamp)
 
+    this.archiveReferenceTable()
     this.userReferenceTable = new Map(Object.entries(userMetadata))
+    indexAttributeValues(this.userReferenceTable, this.userReferenceAttributeValues)
     this.userReferenceTableTimestamp = updateTs
     this.userReferenceTableUpdateCount++
+    this.pruneReferenceHistory()
 
     console.log(`Reference table updated to version ${this.userReferenceTableUpdateCount} (timestamp: ${timestamp})`) 
+    this.journal?.append({ op: 'reference', user_metadata: userMetadata, ts: timestamp, version: this.userReferenceTableUpdateCount })
+  }
+
+  /**
+   * Upserts and deletes individual users on top of a given reference table version.
+   * The patch is applied to a copy that replaces the table in one step, so readers never see a half-applied patch
+   * @param baseVersion - reference table version the patch was made against
+   * @throws VersionConflictError if baseVersion is not the current version
+   * @throws Error if the patch timestamp is older than the current reference table timestamp
+   */
+  patchReferenceTable = (patch: UserReferencePatch, timestamp: string, baseVersion: number): void => {
+    const updateTs = parseTimestamp(timestamp);
+
+    // A patch made against an older generation, e.g. before a full replace, must not be applied on top of it
+    checkReferenceWrite(updateTs, baseVersion, this.userReferenceTableUpdateCount, this.userReferenceTableTimestamp)
+
+    const userReferenceTable = new Map(this.userReferenceTable)
+    for (const [userId, attributes] of Object.entries(patch.upsert)) {
+      userReferenceTable.set(userId, attributes)
+    }
+    for (const userId of patch.delete) {
+      userReferenceTable.delete(userId)
+    }
+
+    this.archiveReferenceTable()
+    this.userReferenceTable = userReferenceTable
+    indexAttributeValues(new Map(Object.entries(patch.upsert)), this.userReferenceAttributeValues)
+    this.userReferenceTableTimestamp = updateTs
+    this.userReferenceTableUpdateCount++
+    this.pruneReferenceHistory()
+
+    console.log(`Reference table patched to version ${this.userReferenceTableUpdateCount} (timestamp: ${timestamp})`)
+    this.journal?.append({ op: 'reference_patch', upsert: patch.upsert, delete: patch.delete, ts: timestamp, version: this.userReferenceTableUpdateCount })
+  }
+
+  getReferenceVersion = (): number => {
+    return this.userReferenceTableUpdateCount;
+  }
+
+  getReferenceTimestamp = (): number => {
+    return this.userReferenceTableTimestamp;
+  }
+
+  /**
+   * Returns size and expiry counters of the event ID deduplication index
+   */
+  getDedupStats = (): DedupStats => {
+    return this.seenEventIds.stats();
+  }
+
+  /**
+   * Returns the events and reference users held and their estimated memory: the raw events, the per-user counts,
+   * summaries and user sketches of every ring buffer bucket and rollup slot, and the current reference table.
+   * Replaced reference generations are left out, as they mostly share attributes with the current table
+   */
+  getUsage = (): StoreUsage => {
+    if (this.userReferenceTableBytes.version !== this.userReferenceTableUpdateCount) {
+      this.userReferenceTableBytes = { version: this.userReferenceTableUpdateCount, bytes: estimateTableBytes(this.userReferenceTable) };
+    }
+    let aggregateBytes = 0;
+    for (const bucket of this.ringBuffer) {
+      aggregateBytes += bucket.estimatedBytes;
+    }
+    for (const rollup of this.rollups) {
+      aggregateBytes += rollup.estimatedBytes();
+    }
+    return {
+      events: this.eventCount,
+      reference_users: this.userReferenceTable.size,
+      estimated_bytes: this.eventBytes + aggregateBytes + this.userReferenceTableBytes.bytes,
+    };
   }
 
   getReferenceTable = (): UserReferenceTable => {
     return this.userReferenceTable;
   }
 
+  /**
+   * Returns the reference table generation that was active at a given second, for event time enrichment.
+   * Seconds before the oldest generation still kept fall back to that generation
+   */
+  getReferenceTableAt = (sec: number): UserReferenceTable => {
+    if (sec >= this.userReferenceTableTimestamp) {
+      return this.userReferenceTable;
+    }
+
+    for (let i = this.userReferenceHistory.length - 1; i >= 0; i--) {
+      const generation = this.userReferenceHistory[i] as ReferenceGeneration;
+      if (generation.effectiveSec <= sec || i === 0) {
+        return generation.table;
+      }
+    }
+    return this.userReferenceTable;
+  }
+
+  /**
+   * Returns the distinct values of each attribute across the current and previous reference table generations still kept,
+   * so metric keys stay stable when a swap drops the last user with a given value
+   */
+  getReferenceAttributeValues = (): Map<string, Set<string>> => {
+    return this.userReferenceAttributeValues;
+  }
+
   /**
    * Ingests an event object and updates the ring buffer and advances the sliding window if necessary
    * @param clockSec - timestamp in seconds to compare event timestamp against, defaults to current time
-   * @throws Error if event timestamp is more than MAX_RETENTION_SEC (120s) seconds away from clockSec
+   * @throws Error if event timestamp is more than the configured retention (maxRetentionSec) away from clockSec
    */
   updateRingBuffer = (event: Event, clockSec?: number): void => {
+    const eventSec = this.addToRingBuffer(event, clockSec ?? Math.floor(Date.now() / 1000));
+    for (const rollup of this.rollups) {
+      rollup.add(event, eventSec);
+    }
+
+    this.journal?.append({ op: 'event', event });
+  }
+
+  // Inserts an event into its 1s bucket, returns the event second
+  private addToRingBuffer = (event: Event, now: number): number => {
     const eventSec = parseTimestamp(event.ts);
-    const now = clockSec ?? Math.floor(Date.now() / 1000);
 
     // Initialize on first event
     if (this.currentSec === 0) {
@@ -130,13 +235,13 @@ export class InMemoryStore {
       this.advanceSlidingWindow(now);
     }
 
-    if (Math.abs(eventSec - this.currentSec) > MAX_RETENTION_SEC) {
-      throw new Error(`Event timestamp is more than ${MAX_RETENTION_SEC} seconds away from current time`);
+    if (Math.abs(eventSec - this.currentSec) > this.config.maxRetentionSec) {
+      throw new Error(`Event timestamp is more than ${this.config.maxRetentionSec} seconds away from current time`);
     }
     
     // Calculate bucket index using modulo for circular behavior
-    const index = eventSec % MAX_RETENTION_SEC;
-    const bucket = this.ringBuffer[index];
+    const index = eventSec % this.config.maxRetentionSec;
+    let bucket = this.ringBuffer[index];
     
     // Guard: ensure bucket exists (should always exist since ring is pre-allocated)
     if (!bucket) {
@@ -145,12 +250,19 @@ export class InMemoryStore {
 
     // If bucket is for a different second (stale), clear it (wrap-around case)
     if (bucket.sec !== eventSec) {
-      bucket.sec = eventSec;
-      bucket.events = [];
+      bucket = createBucket(eventSec, this.config.uniqueUsersSketch);
+      this.replaceBucket(index, bucket);
     }
-    
-    // Add event to bucket
+
+    // Add event to bucket and keep running counts so metric queries don't rescan events
     bucket.events.push(event);
+    countEvent(bucket, event, { summarizedProperties: this.summarizedProperties });
+
+    const bytes = estimateBytes(event);
+    this.ringBufferBytes[index] = (this.ringBufferBytes[index] as number) + bytes;
+    this.eventBytes += bytes;
+    this.eventCount++;
+    return eventSec;
   }
 
   /**
@@ -179,15 +291,13 @@ export class InMemoryStore {
     // Clear stale buckets between current position and target 
     // or entire buffer if jumping far forward (eg. after long idle period)
     const clearStart = this.currentSec + 1;
-    const clearEnd = Math.min(advanceTo, clearStart + MAX_RETENTION_SEC);;
+    const clearEnd = Math.min(advanceTo, clearStart + this.config.maxRetentionSec);;
 
     for (let sec = clearStart; sec <= clearEnd; sec++) {
-      const index = sec % MAX_RETENTION_SEC;
-      this.ringBuffer[index] = {
-        sec: 0,
-        events: [],
-      };
+      this.replaceBucket(sec % this.config.maxRetentionSec, createBucket());
     }
+    this.seenEventIds.expire(this.currentSec, advanceTo);
+    this.pruneReferenceHistory(advanceTo);
 
     this.currentSec = advanceTo;
   }
@@ -200,9 +310,9 @@ export class InMemoryStore {
    */
   getLookbackWindow = (windowSec: number, queryEndSec: number): Bucket[] => {
     // Validate lookback window size
-    if (windowSec > MAX_RETENTION_SEC) {
+    if (windowSec > this.config.maxRetentionSec) {
       throw new Error(
-        `Window parameter exceeds maximum lookback window of ${MAX_RETENTION_SEC}s`
+        `Window parameter exceeds maximum lookback window of ${this.config.maxRetentionSec}s`
       );
     }
 
@@ -213,7 +323,7 @@ export class InMemoryStore {
     // Collect buckets that match the expected second, skip stale buckets
     const buckets: Bucket[] = [];
     for (let sec = windowStart; sec <= windowEnd; sec++) {
-      const index = sec % MAX_RETENTION_SEC;
+      const index = sec % this.config.maxRetentionSec;
       const bucket = this.ringBuffer[index];
 
       if (bucket && bucket.sec === sec) {
@@ -223,4 +333,203 @@ export class InMemoryStore {
 
     return buckets;
   }  
-}
\ No newline at end of file
+
+  getWindowSec = (): number => {
+    return this.currentSec;
+  }
+
+  /**
+   * Returns the lookback window combined from the ring buffer and coarser rollups, see combineTiers
+   * @param windowSec - size of the lookback window in seconds, up to the hour rollup retention
+   * @param queryEndSec - timestamp to query up to in seconds
+   * @throws Error if windowSec exceeds the longest rollup retention
+   */
+  getTieredWindow = (windowSec: number, queryEndSec: number): TieredWindow => {
+    const maxLookbackSec = this.getMaxLookbackSec();
+    if (windowSec > maxLookbackSec) {
+      throw new Error(`Window parameter exceeds maximum lookback window of ${maxLookbackSec}s`);
+    }
+
+    if (windowSec <= this.config.maxRetentionSec) {
+      return { buckets: this.getLookbackWindow(windowSec, queryEndSec), startSec: queryEndSec - windowSec + 1, resolutionSec: 1 };
+    }
+
+    return combineTiers([
+      {
+        resolutionSec: 1,
+        oldestSec: (now: number) => now - this.config.maxRetentionSec + 1,
+        getBuckets: (from: number, to: number): CountBucket[] => this.getLookbackWindow(to - from + 1, to),
+      },
+      ...this.rollups,
+    ], windowSec, queryEndSec);
+  }
+
+  /**
+   * Returns the longest lookback window that can be answered, bounded by the coarsest rollup retention
+   */
+  getMaxLookbackSec = (): number => {
+    return this.config.hourRollupRetentionSec;
+  }
+
+  /**
+   * Records accepted events and reference updates from now on, e.g. to a write-ahead log
+   */
+  attachJournal = (journal: Journal): void => {
+    this.journal = journal;
+  }
+
+  /**
+   * Writes the journal entries buffered since the last flush, called before accepted writes are acknowledged
+   */
+  flush = (): void => {
+    this.journal?.flush();
+  }
+
+  /**
+   * Returns a serializable copy of the store state
+   * @param clockSec - timestamp in seconds the snapshot is taken at, defaults to current time
+   */
+  toSnapshot = (clockSec?: number): StoreSnapshot => {
+    const now = clockSec ?? Math.floor(Date.now() / 1000);
+
+    return {
+      taken_at: now,
+      events: this.ringBuffer
+        .filter(bucket => bucket.sec !== 0)
+        .sort((a, b) => a.sec - b.sec)
+        .flatMap(bucket => bucket.events),
+      seen_event_ids: this.seenEventIds.entries(),
+      rollups: this.rollups.map(rollup => ({ resolution_sec: rollup.resolutionSec, buckets: rollup.serialize() })),
+      reference: {
+        user_metadata: Object.fromEntries(this.userReferenceTable),
+        ts: this.userReferenceTableTimestamp,
+        version: this.userReferenceTableUpdateCount,
+        history: this.userReferenceHistory.map(generation => ({
+          user_metadata: Object.fromEntries(generation.table),
+          ts: generation.effectiveSec,
+          version: generation.version,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Restores store state from a snapshot, dropping events that have aged out of the retention window
+   * @param clockSec - timestamp in seconds to measure retention against, defaults to current time
+   */
+  restoreSnapshot = (snapshot: StoreSnapshot, clockSec?: number): void => {
+    const now = clockSec ?? Math.floor(Date.now() / 1000);
+
+    this.userReferenceTable = new Map(Object.entries(snapshot.reference.user_metadata));
+    indexAttributeValues(this.userReferenceTable, this.userReferenceAttributeValues);
+    this.userReferenceTableTimestamp = snapshot.reference.ts;
+    this.userReferenceTableUpdateCount = snapshot.reference.version;
+    this.userReferenceHistory = (snapshot.reference.history ?? []).map(generation => ({
+      version: generation.version,
+      effectiveSec: generation.ts,
+      table: new Map(Object.entries(generation.user_metadata)),
+    }));
+    this.userReferenceHistory.forEach(({ table }) => indexAttributeValues(table, this.userReferenceAttributeValues));
+    this.pruneReferenceHistory(now);
+
+    for (const [eventId, eventSec] of snapshot.seen_event_ids) {
+      if (eventSec > now - this.config.maxRetentionSec) {
+        this.seenEventIds.add(eventId, eventSec);
+      }
+    }
+    // Rollups already count the snapshot's events, so those only go back into the ring buffer
+    for (const { resolution_sec, buckets } of snapshot.rollups) {
+      this.rollups.find(rollup => rollup.resolutionSec === resolution_sec)?.restore(buckets, now);
+    }
+    for (const event of snapshot.events) {
+      if (parseTimestamp(event.ts) > now - this.config.maxRetentionSec) {
+        this.addToRingBuffer(event, now);
+      }
+    }
+  }
+
+  /**
+   * Re-applies a write-ahead log entry. Events whose ID is still in the dedup index and reference updates
+   * at or below the current version are skipped, but events older than the retention cannot be recognized
+   * and go into the rollups again, so callers only replay entries written after the restored snapshot
+   * @param clockSec - timestamp in seconds to measure retention against, defaults to current time
+   */
+  replay = (entry: JournalEntry, clockSec?: number): void => {
+    const now = clockSec ?? Math.floor(Date.now() / 1000);
+
+    if (entry.op === 'event') {
+      const { event } = entry;
+      if (this.seenEventIds.has(event.event_id)) {
+        return;
+      }
+
+      const eventSec = parseTimestamp(event.ts);
+      if (eventSec > now - this.config.maxRetentionSec) {
+        this.seenEventIds.add(event.event_id, eventSec);
+        this.updateRingBuffer(event, now);
+      } else {
+        // Aged out of the ring buffer, but rollups may still retain it
+        for (const rollup of this.rollups) {
+          rollup.add(event, eventSec);
+        }
+      }
+      return;
+    }
+
+    if (entry.version <= this.userReferenceTableUpdateCount) {
+      return;
+    }
+    if (entry.op === 'reference_patch') {
+      this.patchReferenceTable({ upsert: entry.upsert, delete: entry.delete }, entry.ts, entry.version - 1);
+    } else {
+      this.updateReferenceTable(entry.user_metadata, entry.ts);
+    }
+  }
+
+  // Swaps a ring buffer bucket, keeping the running event count and size in step
+  private replaceBucket = (index: number, bucket: Bucket): void => {
+    this.eventCount -= (this.ringBuffer[index] as Bucket).events.length;
+    this.eventBytes -= this.ringBufferBytes[index] as number;
+    this.ringBuffer[index] = bucket;
+    this.ringBufferBytes[index] = 0;
+  }
+
+  // Keeps the generation about to be replaced so events before the swap can still be enriched as of their timestamp
+  private archiveReferenceTable = (): void => {
+    this.userReferenceHistory.push({
+      version: this.userReferenceTableUpdateCount,
+      effectiveSec: this.userReferenceTableTimestamp,
+      table: this.userReferenceTable,
+    });
+  }
+
+  // Drops generations beyond the history limit and, given a clock, those replaced before the oldest second
+  // the ring buffer still holds, as no event there can need them. Values only in dropped generations leave the index
+  private pruneReferenceHistory = (nowSec?: number): void => {
+    const horizonSec = nowSec === undefined ? -Infinity : nowSec - this.config.maxRetentionSec + 1;
+    let dropped = false;
+
+    while (this.userReferenceHistory.length) {
+      const next = this.userReferenceHistory[1]?.effectiveSec ?? this.userReferenceTableTimestamp;
+      if (this.userReferenceHistory.length <= this.config.referenceHistoryLimit && next > horizonSec) {
+        break;
+      }
+      this.userReferenceHistory.shift();
+      dropped = true;
+    }
+    if (!dropped) {
+      return;
+    }
+
+    this.userReferenceAttributeValues = new Map();
+    for (const { table } of this.userReferenceHistory) {
+      indexAttributeValues(table, this.userReferenceAttributeValues);
+    }
+    indexAttributeValues(this.userReferenceTable, this.userReferenceAttributeValues);
+  }
+}
+
+const createBucket = (sec: number = 0, sketchUsers: boolean = false): Bucket => ({
+  ...createCountBucket(sec, sketchUsers),
+  events: [],
+});
@@ -0,0 +1,192 @@
+import type { Bucket, CountBucket, EnrichedEvent, Event, TieredWindow, UserMetadata, UserReferencePatch, UserReferenceTable } from './types.js';
+import type { DedupStats } from './dedup.js';
+import type { Config } from './config.js';
+import { estimateBytes, formatDuration, parseTimestamp } from './utils.js';
+import { ValidationError, VersionConflictError } from './errors.js';
+import { validateEventSchema } from './validation.js';
+
+export type StorageBackend = 'memory' | 'sqlite';
+export const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'sqlite'];
+
+// How much a store holds, for tenant quotas and the admin listing
+export type StoreUsage = {
+  events: number; // events within the ring buffer retention
+  reference_users: number; // users in the current reference table
+  estimated_bytes: number; // approximate memory held by those events with their aggregates and rollups, and users; for sqlite the database size plus rollups
+}
+
+/**
+ * Store is what the controllers, alert manager and live metrics stream need from a storage backend:
+ * ingest with duplicate checks, versioned reference tables and lookback window queries.
+ * InMemoryStore keeps everything in ring buffers; SqliteStore keeps events and reference tables in a local database file
+ */
+export type Store = {
+  // Ingest and dedup
+  validateEvent: (event: Event, clockSec?: number) => boolean;
+  updateRingBuffer: (event: Event, clockSec?: number) => void;
+  getDedupStats: () => DedupStats;
+  getUsage: () => StoreUsage;
+  flush: () => void; // makes the writes accepted so far durable, called before acknowledging them
+
+  // Reference tables
+  enrichEvent: (event: Event, userReferenceTable?: UserReferenceTable) => EnrichedEvent;
+  updateReferenceTable: (userMetadata: UserMetadata, timestamp: string, expectedVersion?: number) => void;
+  patchReferenceTable: (patch: UserReferencePatch, timestamp: string, baseVersion: number) => void;
+  getReferenceVersion: () => number;
+  getReferenceTimestamp: () => number;
+  getReferenceTable: () => UserReferenceTable;
+  getReferenceTableAt: (sec: number) => UserReferenceTable;
+  getReferenceAttributeValues: () => Map<string, Set<string>>;
+
+  // Window queries
+  advanceSlidingWindow: (targetSec?: number) => void;
+  getWindowSec: () => number; // second the sliding window has advanced to, 0 before the first event or advance
+  getLookbackWindow: (windowSec: number, queryEndSec: number) => Bucket[];
+  getTieredWindow: (windowSec: number, queryEndSec: number) => TieredWindow;
+  getMaxLookbackSec: () => number;
+}
+
+// One resolution a lookback can be answered from, e.g. the 1s ring buffer or a RollupRing
+export type WindowTier = {
+  resolutionSec: number;
+  oldestSec: (nowSec: number) => number; // first second still retained relative to a clock
+  getBuckets: (fromSec: number, toSec: number) => CountBucket[];
+}
+
+/**
+ * Advances a store's sliding window to a clock second, unless the window is already past it,
+ * e.g. because an event within MAX_CLOCK_SKEW_SEC arrived first or the wall clock was stepped back
+ */
+export const advanceWindowTo = (store: Store, nowSec: number): void => {
+  if (nowSec >= store.getWindowSec()) {
+    store.advanceSlidingWindow(nowSec);
+  }
+}
+
+/**
+ * Checks an event against the event schema, clock and duplicate checks, shared by every backend
+ * @param isDuplicate - whether the backend has already seen an event ID
+ * @returns The event second, @throws ValidationError otherwise
+ */
+export const checkEvent = (event: Event, now: number, config: Config, isDuplicate: (eventId: string) => boolean): number => {
+  // Reject events that do not match the schema, reporting every issue at once
+  const issues = validateEventSchema(event);
+  if (issues.length) {
+    const eventId = typeof event?.event_id === 'string' ? ` ${event.event_id}` : '';
+    throw new ValidationError(issues, `Event${eventId} is invalid: ${issues.map(issue => issue.message).join('; ')}`);
+  }
+
+  // Reject duplicates based on event_id
+  if (isDuplicate(event.event_id)) {
+    throw new ValidationError([{ code: 'duplicate', path: 'event_id', message: `Event ${event.event_id} already seen` }]);
+  }
+
+  // Reject clock skew and late events
+  const eventTs = parseTimestamp(event.ts);
+  if ((eventTs - now) > config.maxClockSkewSec) {
+    throw new ValidationError([{
+      code: 'too_far_in_future',
+      path: 'ts',
+      message: `Event ${event.event_id} timestamp is more than ${formatDuration(config.maxClockSkewSec)} skewed.`,
+    }]);
+  }
+  if (eventTs < now - config.latenessSec) {
+    throw new ValidationError([{
+      code: 'too_late',
+      path: 'ts',
+      message: `Event ${event.event_id} timestamp is outside the ${formatDuration(config.latenessSec, true)} lateness threshold.`,
+    }]);
+  }
+  return eventTs;
+}
+
+/**
+ * Checks a reference table write against the current generation, shared by every backend
+ * @param expectedVersion - version the write was made against, if it is conditional
+ * @throws VersionConflictError if expectedVersion is not the current version
+ * @throws Error if the write timestamp is older than the current reference table timestamp
+ */
+export const checkReferenceWrite = (updateTs: number, expectedVersion: number | undefined, currentVersion: number, currentTs: number): void => {
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    throw new VersionConflictError(expectedVersion, currentVersion);
+  }
+  // last-write-wins, equal timestamps are only told apart by a version check
+  if (updateTs < currentTs) {
+    throw new Error(`Stale update: timestamp is older than current version. Current version is ${new Date(currentTs * 1000).toISOString()}`);
+  }
+}
+
+/**
+ * Returns an event with the user's attributes from a reference table, or the original event if the user is unknown
+ */
+export const enrichWithTable = (event: Event, userReferenceTable: UserReferenceTable): EnrichedEvent => {
+  const userInfo = userReferenceTable.get(event.user_id);
+
+  if (!userInfo) { return event }
+
+  return {
+    ...event,
+    metadata: {
+      user: { ...userInfo }
+    }
+  };
+}
+
+/**
+ * Estimates the memory a reference table holds, see estimateBytes
+ */
+export const estimateTableBytes = (userReferenceTable: UserReferenceTable): number => {
+  let bytes = 0;
+  for (const entry of userReferenceTable) {
+    bytes += estimateBytes(entry);
+  }
+  return bytes;
+}
+
+/**
+ * Adds the attribute values of a reference table to a running index of distinct values per attribute
+ */
+export const indexAttributeValues = (userReferenceTable: UserReferenceTable, index: Map<string, Set<string>>): void => {
+  for (const attributes of userReferenceTable.values()) {
+    for (const [attribute, value] of Object.entries(attributes)) {
+      const values = index.get(attribute) ?? new Set<string>();
+      values.add(value);
+      index.set(attribute, values);
+    }
+  }
+}
+
+/**
+ * Combines a lookback window from tiers of increasing resolution, finest first.
+ * Recent seconds come from the finest tier that still retains them; each coarser tier takes over
+ * at one of its slot boundaries so no period is counted twice
+ */
+export const combineTiers = (tiers: WindowTier[], windowSec: number, queryEndSec: number): TieredWindow => {
+  const windowStart = queryEndSec - windowSec + 1;
+  const buckets: CountBucket[] = [];
+  let startSec = windowStart;
+  let resolutionSec = 1;
+  let tierEnd = queryEndSec;
+
+  for (const [i, tier] of tiers.entries()) {
+    const coarser = tiers[i + 1];
+    let tierStart = Math.max(windowStart, tier.oldestSec(queryEndSec));
+    if (tierStart > windowStart && coarser) {
+      tierStart = Math.ceil(tierStart / coarser.resolutionSec) * coarser.resolutionSec;
+    }
+
+    if (tierStart <= tierEnd) {
+      const tierBuckets = tier.getBuckets(tierStart, tierEnd);
+      buckets.unshift(...tierBuckets);
+      resolutionSec = tier.resolutionSec;
+      startSec = Math.min(startSec, tierStart - (tierStart % tier.resolutionSec));
+    }
+
+    tierEnd = tierStart - 1;
+    if (tierEnd < windowStart) {
+      break;
+    }
+  }
+
+  return { buckets, startSec, resolutionSec };
+}
@@ -0,0 +1,258 @@
+import path from 'node:path';
+import type { Request, Response } from 'express';
+import { AlertManager } from './alerts.js';
+import { getPrincipal, respondForbidden, respondUnauthorized } from './auth.js';
+import { Controllers } from './controllers.js';
+import { DEFAULT_CONFIG } from './config.js';
+import type { Config } from './config.js';
+import { QuotaExceededError } from './errors.js';
+import { ServiceMetrics } from './instrumentation.js';
+import type { Store, StoreUsage } from './store.js';
+import type { Event } from './types.js';
+import { DEFAULT_TENANT_ID, TENANT_ID, estimateBytes } from './utils.js';
+
+type TenantHandler = (req: Request, res: Response) => void | Promise<void>;
+
+// One tenant in GET /admin/tenants
+export type TenantUsage = {
+  tenant_id: string;
+  created_at: string;
+  usage: StoreUsage;
+  events_last_sec: number; // events accepted in the last full second
+  quota: { events_per_sec: number | null; max_memory_bytes: number | null }; // null when unlimited
+  quota_rejections: { events_per_sec: number; memory: number }; // events rejected since the tenant was created
+}
+
+type Tenant = {
+  id: string;
+  createdAt: string;
+  store: Store;
+  controllers: Controllers;
+  quota: TenantQuota;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * TenantRegistry gives every tenant its own store, alert rules and live metrics streams, created on the tenant's first request.
+ * A request belongs to the tenant its credentials are bound to (its X-Api-Key in TENANT_API_KEYS, or its JWT tenant claim),
+ * else the tenant named by X-Tenant-Id, else the default tenant.
+ * Tenants with API keys in TENANT_API_KEYS can only be reached with one of their keys.
+ * @constructor takes the factory opening a tenant's store, and the metrics counting each tenant's ingest outcomes
+ * @method handle: wraps a controller handler so it runs against the requesting tenant
+ * @method listTenants: responds with every tenant's usage, quotas and quota rejections
+ * @method getStores: returns every tenant's store by tenant ID
+ */
+export class TenantRegistry {
+  private tenants: Map<string, Tenant> = new Map();
+  private apiKeys: Map<string, string>; // API key -> tenant ID
+  private keyedTenants: Set<string>;
+
+  constructor(
+    private openStore: (tenantId: string) => Store,
+    private config: Config = DEFAULT_CONFIG,
+    private metrics: ServiceMetrics = new ServiceMetrics(),
+  ) {
+    this.apiKeys = new Map(Object.entries(config.tenantApiKeys));
+    this.keyedTenants = new Set(this.apiKeys.values());
+  }
+
+  /**
+   * Wraps a handler of the tenant's Controllers, e.g. tenants.handle(controllers => controllers.getMetrics).
+   * Responds with 400, 401 or 403 instead if the request cannot be attributed to a tenant
+   */
+  handle = (select: (controllers: Controllers) => TenantHandler): TenantHandler => {
+    return async (req: Request, res: Response): Promise<void> => {
+      const tenant = this.resolve(req, res);
+      if (tenant) {
+        await select(tenant.controllers)(req, res);
+      }
+    };
+  }
+
+  listTenants = (_req: Request, res: Response): void => {
+    const nowSec = Math.floor(Date.now() / 1000);
+    const tenants: TenantUsage[] = [...this.tenants.values()]
+      .sort((a, b) => a.id < b.id ? -1 : 1)
+      .map(tenant => ({
+        tenant_id: tenant.id,
+        created_at: tenant.createdAt,
+        usage: tenant.store.getUsage(),
+        events_last_sec: tenant.quota.eventsLastSec(nowSec),
+        quota: {
+          events_per_sec: this.config.tenantEventsPerSec ?? null,
+          max_memory_bytes: this.config.tenantMaxMemoryMb === undefined ? null : this.config.tenantMaxMemoryMb * BYTES_PER_MB,
+        },
+        quota_rejections: { ...tenant.quota.rejections },
+      }));
+    res.status(200).json({ tenants });
+  }
+
+  getStores = (): Map<string, Store> => {
+    return new Map([...this.tenants].map(([tenantId, tenant]) => [tenantId, tenant.store]));
+  }
+
+  // Finds or creates the requesting tenant, responds and returns null if there is none
+  private resolve = (req: Request, res: Response): Tenant | null => {
+    const principal = getPrincipal(res);
+    const apiKey = req.get('X-Api-Key');
+    const requested = req.get('X-Tenant-Id');
+    let tenantId = DEFAULT_TENANT_ID;
+
+    // Authenticated requests are bound by their principal, otherwise API keys only select a tenant
+    let boundTenant = principal?.tenantId;
+    if (!principal && apiKey !== undefined) {
+      boundTenant = this.apiKeys.get(apiKey);
+      if (!boundTenant) {
+        respondUnauthorized(res, 'Unknown API key');
+        return null;
+      }
+    }
+
+    if (boundTenant) {
+      if (requested !== undefined && requested !== boundTenant) {
+        respondForbidden(res, `Credentials do not belong to tenant ${requested}`);
+        return null;
+      }
+      tenantId = boundTenant;
+    } else if (requested !== undefined) {
+      if (!TENANT_ID.test(requested)) {
+        res.status(400).json({
+          error: 'Invalid X-Tenant-Id header',
+          message: 'X-Tenant-Id must be 1 to 64 lowercase letters, digits, - or _, starting with a letter or digit',
+        });
+        return null;
+      }
+      tenantId = requested;
+    }
+
+    if (!boundTenant && this.keyedTenants.has(tenantId)) {
+      if (principal) {
+        respondForbidden(res, `Credentials do not belong to tenant ${tenantId}`);
+      } else {
+        respondUnauthorized(res, `Tenant ${tenantId} requires an API key`);
+      }
+      return null;
+    }
+
+    const tenant = this.tenants.get(tenantId);
+    if (tenant) {
+      return tenant;
+    }
+    if (this.tenants.size >= this.config.maxTenants) {
+      respondForbidden(res, `Tenant limit of ${this.config.maxTenants} reached, ${tenantId} cannot be created`);
+      return null;
+    }
+    return this.create(tenantId);
+  }
+
+  private create = (tenantId: string): Tenant => {
+    const store = this.openStore(tenantId);
+    const quota = new TenantQuota(tenantId, this.config);
+    const alerts = new AlertManager(store, this.config);
+    const tenant: Tenant = {
+      id: tenantId,
+      createdAt: new Date().toISOString(),
+      store,
+      controllers: new Controllers(this.metrics.instrumentStore(tenantId, withQuota(store, quota)), this.config, alerts),
+      quota,
+    };
+
+    this.tenants.set(tenantId, tenant);
+    alerts.start();
+    console.log(`Tenant ${tenantId} created`);
+    return tenant;
+  }
+}
+
+/**
+ * TenantQuota counts a tenant's accepted events per wall clock second and rejects events beyond its quotas
+ * @method admit: throws QuotaExceededError if one more event would exceed a quota
+ * @method record: counts an accepted event
+ * @method eventsLastSec: returns the events accepted in the last full second
+ */
+class TenantQuota {
+  readonly rejections = { events_per_sec: 0, memory: 0 };
+  private sec: number = 0;
+  private accepted: number = 0; // events accepted in sec
+  private acceptedLastSec: number = 0; // events accepted in sec - 1
+  private usage: StoreUsage | null = null; // refreshed at most once per second, counting it can take queries
+  private usageSec: number = 0;
+  private bytesSinceUsage: number = 0; // raw size of events accepted since the usage was refreshed, their aggregates count from the next refresh
+
+  constructor(private tenantId: string, private config: Config) {}
+
+  admit = (store: Store, nowSec: number): void => {
+    this.roll(nowSec);
+
+    const { tenantEventsPerSec, tenantMaxMemoryMb } = this.config;
+    if (tenantEventsPerSec !== undefined && this.accepted >= tenantEventsPerSec) {
+      this.rejections.events_per_sec++;
+      throw new QuotaExceededError(this.tenantId, 'events_per_sec', `Tenant ${this.tenantId} is over its quota of ${tenantEventsPerSec} events per second`);
+    }
+
+    if (tenantMaxMemoryMb === undefined) {
+      return;
+    }
+    if (!this.usage || this.usageSec !== nowSec) {
+      this.usage = store.getUsage();
+      this.usageSec = nowSec;
+      this.bytesSinceUsage = 0;
+    }
+    if (this.usage.estimated_bytes + this.bytesSinceUsage >= tenantMaxMemoryMb * BYTES_PER_MB) {
+      this.rejections.memory++;
+      throw new QuotaExceededError(this.tenantId, 'memory', `Tenant ${this.tenantId} is over its memory quota of ${tenantMaxMemoryMb} MB`);
+    }
+  }
+
+  record = (event: Event): void => {
+    this.accepted++;
+    if (this.config.tenantMaxMemoryMb !== undefined) {
+      this.bytesSinceUsage += estimateBytes(event);
+    }
+  }
+
+  eventsLastSec = (nowSec: number): number => {
+    this.roll(nowSec);
+    return this.acceptedLastSec;
+  }
+
+  private roll = (nowSec: number): void => {
+    if (nowSec === this.sec) {
+      return;
+    }
+    this.acceptedLastSec = nowSec === this.sec + 1 ? this.accepted : 0;
+    this.accepted = 0;
+    this.sec = nowSec;
+  }
+}
+
+/**
+ * Returns the SQLite database file of a tenant: the configured file for the default tenant, e.g. data/analytics.sqlite,
+ * and one next to it per other tenant, e.g. data/analytics.checkout.sqlite
+ */
+export const tenantSqlitePath = (sqlitePath: string, tenantId: string): string => {
+  if (tenantId === DEFAULT_TENANT_ID || sqlitePath === ':memory:') {
+    return sqlitePath;
+  }
+  const { dir, name, ext } = path.parse(sqlitePath);
+  return path.join(dir, `${name}.${tenantId}${ext}`);
+}
+
+/**
+ * Returns the persistence directory of a tenant: DATA_DIR for the default tenant, DATA_DIR/tenants/<tenant> for others
+ */
+export const tenantDataDir = (dataDir: string, tenantId: string): string => {
+  return tenantId === DEFAULT_TENANT_ID ? dataDir : path.join(dataDir, 'tenants', tenantId);
+}
+
+// Store methods are own arrow function properties, so the spread keeps them bound to the tenant's store
+const withQuota = (store: Store, quota: TenantQuota): Store => ({
+  ...store,
+  validateEvent: (event, clockSec) => {
+    quota.admit(store, Math.floor(Date.now() / 1000));
+    const valid = store.validateEvent(event, clockSec);
+    quota.record(event);
+    return valid;
+  },
+});
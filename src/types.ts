@@ -1,26 +1,109 @@
-export type Plan = 'free' | 'pro';
-export type Region = 'us' | 'eu';
+import type { HyperLogLog } from './hll.js';
+import type { SerializedValueSummary, ValueSummary } from './values.js';
 
-export type UserReferenceTable = Map<string, { plan: Plan, region: Region }>;
-export type UserMetadata = Record<string, { plan: Plan, region: Region }>
+// Arbitrary string attributes per user, e.g. { plan: 'pro', region: 'eu', industry: 'retail' }
+export type UserAttributes = Record<string, string>;
+
+export type UserReferenceTable = Map<string, UserAttributes>;
+
+// A reference table version and the second it took effect, kept so events can be enriched as of their own timestamp
+export type ReferenceGeneration = {
+  version: number;
+  effectiveSec: number;
+  table: UserReferenceTable;
+}
+export type UserMetadata = Record<string, UserAttributes>
+
+// Incremental reference table change: upserted users replace their attributes, deleted users are removed
+export type UserReferencePatch = {
+  upsert: UserMetadata;
+  delete: string[];
+}
 
 export type Event = {
   event_id: string;
   user_id: string;
   type: 'click' | 'view' | 'purchase';
   ts: string; // ISO datetime string
+  properties?: Record<string, string | number | boolean>; // free-form, numeric properties are summarized per bucket for percentiles
+  value?: number; // e.g. purchase amount, aggregated per group
+  currency?: string; // ISO 4217 code of value, values in different currencies are never mixed
 }
+export type EventType = Event['type'];
+
 export type EnrichedEvent = Event & {
   metadata?: { 
-    user: { 
-      plan: Plan, 
-      region: Region 
-    } 
+    user: UserAttributes
   };
 }
 
+// Per-user event counts within a bucket, broken down by event type
+export type UserCounts = {
+  total: number;
+  byType: Map<EventType, number>;
+  values?: Map<EventType, Map<string, ValueSummary>>; // event type -> currency -> summary of event values, if any carried one
+  properties?: Map<EventType, Map<string, ValueSummary>>; // event type -> property name -> summary of numeric property values
+}
+
+// Pre-aggregated counts for one slot of time, shared by the 1s ring buffer and coarser rollups
+export type CountBucket = {
+  sec: number; // first epoch second this bucket covers
+  userCounts: Map<string, UserCounts>; // user_id -> events in this slot, pre-aggregated at ingest
+  typeCounts: Map<EventType, number>; // event type -> events in this slot
+  userSketch?: HyperLogLog; // distinct users in this slot, merged across buckets for approximate unique users
+  estimatedBytes: number; // approximate memory of the counts, summaries and sketch, kept in step by countEvent
+}
+
 // Bucket keeps per-second counts for expiry math
-export type Bucket = {
-  sec: number; // epoch second this bucket represents
+export type Bucket = CountBucket & {
+  events: Event[];
+}
+
+// Buckets answering a lookback query, possibly combined from several resolutions
+export type TieredWindow = {
+  buckets: CountBucket[];
+  startSec: number; // first second covered, earlier than requested if a coarse slot straddles the window start
+  resolutionSec: number; // coarsest resolution used
+}
+
+// Accepted writes appended to the write-ahead log, replayed on startup
+export type JournalEntry =
+  | { op: 'event'; event: Event }
+  | { op: 'reference'; user_metadata: UserMetadata; ts: string; version: number }
+  | { op: 'reference_patch'; upsert: UserMetadata; delete: string[]; ts: string; version: number };
+
+// Appends are buffered until flushed, so a request's writes reach the log together before it is acknowledged
+export type Journal = {
+  append: (entry: JournalEntry) => void;
+  flush: () => void;
+}
+
+// Point-in-time copy of store state, written periodically so the log can be truncated
+export type StoreSnapshot = {
+  taken_at: number; // epoch second the snapshot was taken
   events: Event[];
-}
\ No newline at end of file
+  seen_event_ids: [string, number][]; // event_id -> event second, for time-expiring dedup
+  rollups: { resolution_sec: number; buckets: SerializedCountBucket[] }[];
+  reference: {
+    user_metadata: UserMetadata;
+    ts: number; // epoch second of the reference generation
+    version: number;
+    history?: { user_metadata: UserMetadata; ts: number; version: number }[]; // previous generations, oldest first
+  };
+}
+
+export type SerializedCountBucket = {
+  sec: number;
+  users: SerializedUserCounts[];
+}
+
+// user_id, per-type counts and, if any, per-type and currency event values and per-type numeric property values
+export type SerializedUserCounts = [
+  string,
+  [EventType, number][],
+  [EventType, string, SerializedValueSummary][]?,
+  [EventType, string, SerializedValueSummary][]?,
+];
+
+// What an API key or bearer token is allowed to do, see auth.ts
+export type Role = 'ingest' | 'reference-admin' | 'metrics-read' | 'alerts-admin' | 'admin';
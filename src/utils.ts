@@ -1,4 +1,4 @@
-import type { Event } from './types.js'
+import type { Event, Role } from './types.js'
 
 export const isObject = (value: unknown): boolean => {
   return value !== null && typeof value === 'object' && !Array.isArray(value);
@@ -11,6 +11,17 @@ export const parseTimestamp = (ts: string): number => {
   return timestamp;
 }
 
+// Formats seconds for messages, e.g. 120 -> '2 minutes', or '2 minute' when used as an adjective ('2 minute threshold')
+export const formatDuration = (sec: number, adjective: boolean = false): string => {
+  const [value, unit] = sec % 3600 === 0 ? [sec / 3600, 'hour'] : sec % 60 === 0 ? [sec / 60, 'minute'] : [sec, 'second'];
+  return `${value} ${unit}${value === 1 || adjective ? '' : 's'}`;
+}
+
+// Rough memory footprint of a value, two bytes per character of its JSON form. Good enough to compare against a quota
+export const estimateBytes = (value: unknown): number => {
+  return JSON.stringify(value).length * 2;
+}
+
 export const normalizeToArray = (events: unknown): Event[] | null => {
   if (isObject(events)) {
     return [events as Event];
@@ -26,4 +37,11 @@ export const normalizeToArray = (events: unknown): Event[] | null => {
 // constants
 export const LATENESS_SEC = 120; // Events accepted up to 2min late
 export const MAX_CLOCK_SKEW_SEC = 120;
-export const MAX_RETENTION_SEC = 1800; // Retain 30 minutes of events
\ No newline at end of file
+export const MAX_RETENTION_SEC = 1800; // Retain 30 minutes of events
+export const EVENT_TYPES: Event['type'][] = ['click', 'view', 'purchase'];
+export const ROLES: Role[] = ['ingest', 'reference-admin', 'metrics-read', 'alerts-admin', 'admin'];
+export const DEFAULT_GROUP_BY = ['plan', 'region'];
+export const MISSING_ATTRIBUTE_VALUE = '__missing__'; // bucket for known users without a value for a grouped attribute
+export const DEFAULT_TENANT_ID = 'default'; // tenant of requests without an API key or X-Tenant-Id header
+export const TENANT_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/; // lowercase, safe as a file name
+export const UNKNOWN_USER_VALUE = '__unknown__'; // crosstab value for users not in the reference table
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { NON_FILTER_QUERY_PARAMS } from './metrics.js';
+import { ALERT_METRICS, ALERT_OPERATORS } from './alerts.js';
+import { EVENT_TYPES, isObject } from './utils.js';
+
+export type ValidationIssueCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_enum'
+  | 'invalid_format'
+  | 'out_of_range'
+  | 'unknown_field'
+  | 'reserved_name'
+  | 'conflict'
+  | 'duplicate'
+  | 'too_late'
+  | 'too_far_in_future';
+
+// Machine-readable reason a payload was rejected, e.g. { code: 'invalid_enum', path: 'type', message: 'type must be one of click, view, purchase' }
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  path: string; // dot separated path to the offending field, empty for the payload itself
+  message: string;
+}
+
+const EVENT_FIELDS = new Set(['event_id', 'user_id', 'type', 'ts', 'properties', 'value', 'currency']);
+
+const ALERT_RULE_FIELDS = new Set(['name', 'metric', 'window_sec', 'filters', 'operator', 'threshold', 'for_sec']);
+
+// ISO 4217 currency code, e.g. USD
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// ISO-8601 date and time with an explicit offset, e.g. 2025-10-08T12:34:56.789Z
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+// Attribute names that would be ambiguous as metric filters or crosstab dimensions
+const RESERVED_ATTRIBUTE_NAMES = new Set(['type', 'user_id', ...NON_FILTER_QUERY_PARAMS]);
+
+/**
+ * Checks an event against the event schema: required string IDs, a known type, an ISO-8601 timestamp,
+ * optional properties, value and currency, and no other fields
+ */
+export const validateEventSchema = (event: unknown): ValidationIssue[] => {
+  if (!isObject(event)) {
+    return [issue('invalid_type', '', 'Event must be an object')];
+  }
+
+  const fields = event as Record<string, unknown>;
+  const issues = [
+    ...validateRequiredString(fields.event_id, 'event_id'),
+    ...validateRequiredString(fields.user_id, 'user_id'),
+    ...validateTimestamp(fields.ts, 'ts'),
+  ];
+
+  if (fields.type === undefined || fields.type === null || fields.type === '') {
+    issues.push(issue('required', 'type', 'type is required'));
+  } else if (!EVENT_TYPES.includes(fields.type as never)) {
+    issues.push(issue('invalid_enum', 'type', `type must be one of ${EVENT_TYPES.join(', ')}`));
+  }
+
+  if (fields.value !== undefined && (typeof fields.value !== 'number' || !Number.isFinite(fields.value))) {
+    issues.push(issue('invalid_type', 'value', 'value must be a finite number'));
+  }
+  if (fields.currency !== undefined) {
+    if (typeof fields.currency !== 'string' || !CURRENCY_CODE.test(fields.currency)) {
+      issues.push(issue('invalid_format', 'currency', 'currency must be an ISO 4217 code, e.g. USD'));
+    } else if (fields.value === undefined) {
+      issues.push(issue('required', 'value', 'value is required when currency is set'));
+    }
+  }
+  if (fields.properties !== undefined) {
+    issues.push(...validateProperties(fields.properties, 'properties'));
+  }
+
+  for (const field of Object.keys(fields)) {
+    if (!EVENT_FIELDS.has(field)) {
+      issues.push(issue('unknown_field', field, `${field} is not an event field`));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks a full reference table replacement body: { user_metadata, ts }
+ */
+export const validateReferenceUpdate = (body: unknown): ValidationIssue[] => {
+  const { user_metadata, ts } = (isObject(body) ? body : {}) as Record<string, unknown>;
+
+  const issues = user_metadata === undefined
+    ? [issue('required', 'user_metadata', 'user_metadata is required')]
+    : validateUserMetadata(user_metadata, 'user_metadata');
+  issues.push(...validateTimestamp(ts, 'ts'));
+  return issues;
+}
+
+/**
+ * Checks a reference table patch body: { upsert?, delete?, version?, ts }. A user may not be both upserted and deleted
+ */
+export const validateReferencePatch = (body: unknown): ValidationIssue[] => {
+  const { upsert = {}, delete: deletions = [], version, ts } = (isObject(body) ? body : {}) as Record<string, unknown>;
+  const issues = validateUserMetadata(upsert, 'upsert');
+
+  if (!Array.isArray(deletions)) {
+    issues.push(issue('invalid_type', 'delete', 'delete must be an array of user IDs'));
+  } else {
+    for (const [i, userId] of deletions.entries()) {
+      if (typeof userId !== 'string' || !userId) {
+        issues.push(issue('invalid_type', `delete.${i}`, `delete.${i} must be a user ID`));
+      } else if (isObject(upsert) && Object.hasOwn(upsert as object, userId)) {
+        issues.push(issue('conflict', `delete.${i}`, `${userId} cannot be both upserted and deleted`));
+      }
+    }
+  }
+
+  if (version !== undefined && !Number.isInteger(version)) {
+    issues.push(issue('invalid_type', 'version', 'version must be an integer'));
+  }
+  issues.push(...validateTimestamp(ts, 'ts'));
+  return issues;
+}
+
+/**
+ * Checks an alert rule definition: a name, a known metric and operator, a window the ring buffer covers,
+ * a numeric threshold, optional filters and pending duration, and no other fields
+ */
+export const validateAlertRule = (body: unknown, maxWindowSec: number): ValidationIssue[] => {
+  if (!isObject(body)) {
+    return [issue('invalid_type', '', 'Alert rule must be an object')];
+  }
+
+  const fields = body as Record<string, unknown>;
+  const issues = [
+    ...validateRequiredString(fields.name, 'name'),
+    ...validateEnum(fields.metric, 'metric', ALERT_METRICS),
+    ...validateEnum(fields.operator, 'operator', ALERT_OPERATORS),
+  ];
+
+  if (fields.window_sec === undefined) {
+    issues.push(issue('required', 'window_sec', 'window_sec is required'));
+  } else if (!Number.isInteger(fields.window_sec)) {
+    issues.push(issue('invalid_type', 'window_sec', 'window_sec must be an integer'));
+  } else if ((fields.window_sec as number) <= 0 || (fields.window_sec as number) > maxWindowSec) {
+    issues.push(issue('out_of_range', 'window_sec', `window_sec must be between 1 and ${maxWindowSec}`));
+  }
+
+  if (fields.threshold === undefined) {
+    issues.push(issue('required', 'threshold', 'threshold is required'));
+  } else if (typeof fields.threshold !== 'number' || !Number.isFinite(fields.threshold)) {
+    issues.push(issue('invalid_type', 'threshold', 'threshold must be a finite number'));
+  }
+
+  if (fields.for_sec !== undefined && (!Number.isInteger(fields.for_sec) || (fields.for_sec as number) < 0)) {
+    issues.push(issue('invalid_type', 'for_sec', 'for_sec must be a non-negative integer'));
+  }
+  if (fields.filters !== undefined) {
+    issues.push(...validateAlertFilters(fields.filters, 'filters'));
+  }
+
+  for (const field of Object.keys(fields)) {
+    if (!ALERT_RULE_FIELDS.has(field)) {
+      issues.push(issue('unknown_field', field, `${field} is not an alert rule field`));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks a map of user ID to attributes
+ */
+export const validateUserMetadata = (userMetadata: unknown, path: string): ValidationIssue[] => {
+  if (!isObject(userMetadata)) {
+    return [issue('invalid_type', path, `${path} must be an object keyed by user ID`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [userId, attributes] of Object.entries(userMetadata as object)) {
+    if (!userId) {
+      issues.push(issue('required', path, `${path} has an empty user ID`));
+      continue;
+    }
+    issues.push(...validateUserAttributes(attributes, joinPath(path, userId)));
+  }
+  return issues;
+}
+
+/**
+ * Checks one user's attributes: string values under names that do not clash with query parameters
+ */
+export const validateUserAttributes = (attributes: unknown, path: string = ''): ValidationIssue[] => {
+  if (!isObject(attributes)) {
+    return [issue('invalid_type', path, `${path} must be an object of string attributes`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [attribute, value] of Object.entries(attributes as object)) {
+    const attributePath = joinPath(path, attribute);
+    if (RESERVED_ATTRIBUTE_NAMES.has(attribute)) {
+      issues.push(issue('reserved_name', attributePath, `${attribute} is a reserved name and cannot be used as an attribute`));
+    } else if (typeof value !== 'string') {
+      issues.push(issue('invalid_type', attributePath, `${attributePath} must be a string`));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks that a value is an ISO-8601 timestamp with an explicit offset
+ */
+export const validateTimestamp = (ts: unknown, path: string): ValidationIssue[] => {
+  if (ts === undefined || ts === null || ts === '') {
+    return [issue('required', path, `${path} is required`)];
+  }
+  if (typeof ts !== 'string' || !ISO_TIMESTAMP.test(ts) || isNaN(Date.parse(ts))) {
+    return [issue('invalid_format', path, `${path} must be an ISO-8601 timestamp, e.g. 2025-10-08T12:34:56.789Z`)];
+  }
+  return [];
+}
+
+const validateProperties = (properties: unknown, path: string): ValidationIssue[] => {
+  if (!isObject(properties)) {
+    return [issue('invalid_type', path, `${path} must be an object`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [key, value] of Object.entries(properties as object)) {
+    const isScalar = typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+    if (!isScalar) {
+      issues.push(issue('invalid_type', joinPath(path, key), `${joinPath(path, key)} must be a string, number or boolean`));
+    }
+  }
+  return issues;
+}
+
+// Filters are lists of values per filter name, like GET /metrics filters: { type: ['purchase'], region: ['eu', 'us'] }
+const validateAlertFilters = (filters: unknown, path: string): ValidationIssue[] => {
+  if (!isObject(filters)) {
+    return [issue('invalid_type', path, `${path} must be an object of value lists`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [name, values] of Object.entries(filters as object)) {
+    const filterPath = joinPath(path, name);
+    if (!Array.isArray(values) || !values.length || values.some(value => typeof value !== 'string' || !value)) {
+      issues.push(issue('invalid_type', filterPath, `${filterPath} must be a non-empty array of strings`));
+    } else if (NON_FILTER_QUERY_PARAMS.has(name)) {
+      issues.push(issue('reserved_name', filterPath, `${name} is not a filter`));
+    } else if (name === 'type') {
+      issues.push(...values.flatMap((value, i) => validateEnum(value, joinPath(filterPath, String(i)), EVENT_TYPES)));
+    }
+  }
+  return issues;
+}
+
+const validateEnum = (value: unknown, path: string, allowed: readonly string[]): ValidationIssue[] => {
+  if (value === undefined || value === null || value === '') {
+    return [issue('required', path, `${path} is required`)];
+  }
+  if (!allowed.includes(value as string)) {
+    return [issue('invalid_enum', path, `${path} must be one of ${allowed.join(', ')}`)];
+  }
+  return [];
+}
+
+const validateRequiredString = (value: unknown, path: string): ValidationIssue[] => {
+  if (value === undefined || value === null || value === '') {
+    return [issue('required', path, `${path} is required`)];
+  }
+  if (typeof value !== 'string') {
+    return [issue('invalid_type', path, `${path} must be a string`)];
+  }
+  return [];
+}
+
+const issue = (code: ValidationIssueCode, path: string, message: string): ValidationIssue => ({ code, path, message });
+
+const joinPath = (path: string, key: string): string => path ? `${path}.${key}` : key;
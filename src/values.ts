@@ -0,0 +1,123 @@
+import { DDSketch } from './ddsketch.js';
+import type { SerializedDDSketch } from './ddsketch.js';
+
+// Percentiles of event values reported per group, unless the query asks for others
+export const DEFAULT_PERCENTILES = [50, 90, 99];
+
+// Approximate memory of a summary without its sketch, including its map entry, measured on V8
+const SUMMARY_BYTES = 100;
+
+export type SerializedValueSummary = {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  sketch?: SerializedDDSketch; // left out while the summary holds two values or fewer
+}
+
+/**
+ * ValueSummary accumulates count, sum, min and max of numeric values, and a DDSketch for percentiles within 1% relative error.
+ * Summaries merge, so per-user summaries kept in each bucket can be combined into any group at query time,
+ * and their size is bounded by the sketch's bin limit however many values are added.
+ * Most users have one or two values per bucket, which min and max hold exactly, so the sketch is only allocated
+ * with the third value. Methods live on the prototype, as there is a summary per user, type and key in every bucket
+ * @method add: adds a value
+ * @method merge: folds another summary into this one
+ * @method percentile: returns the estimated value at a percentile
+ * @method serialize: returns the summary in serializable form
+ * @method estimatedBytes: returns the approximate memory the summary holds
+ */
+export class ValueSummary {
+  count: number = 0;
+  sum: number = 0;
+  min: number = Infinity;
+  max: number = -Infinity;
+  private sketch: DDSketch | null = null;
+
+  add(value: number): void {
+    if (this.count === 2) {
+      this.sketch = this.toSketch();
+    }
+    this.sketch?.add(value);
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  merge(other: ValueSummary): void {
+    if (!other.count) {
+      return;
+    }
+    if (this.count + other.count > 2) {
+      const sketch = this.toSketch();
+      sketch.merge(other.sketch ?? other.toSketch());
+      this.sketch = sketch;
+    }
+    this.count += other.count;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+  }
+
+  /**
+   * Returns the estimated value at a percentile (0-100) using the nearest-rank method, or null for an empty summary.
+   * The lowest and highest ranks are answered from the exact min and max, other estimates are clamped to them
+   */
+  percentile(p: number): number | null {
+    if (!this.count) {
+      return null;
+    }
+    const rank = Math.max(1, Math.ceil((p / 100) * this.count));
+    if (rank === 1) {
+      return this.min;
+    }
+    if (rank >= this.count || !this.sketch) {
+      return this.max;
+    }
+    const estimate = this.sketch.quantile(p / 100) as number;
+    return Math.min(this.max, Math.max(this.min, estimate));
+  }
+
+  serialize(): SerializedValueSummary {
+    const serialized: SerializedValueSummary = { count: this.count, sum: this.sum, min: this.min, max: this.max };
+    if (this.sketch) {
+      serialized.sketch = this.sketch.serialize();
+    }
+    return serialized;
+  }
+
+  estimatedBytes(): number {
+    return SUMMARY_BYTES + (this.sketch?.estimatedBytes() ?? 0);
+  }
+
+  /**
+   * Rebuilds a summary from serialized form
+   */
+  static restore(serialized: SerializedValueSummary): ValueSummary {
+    const summary = new ValueSummary();
+    summary.count = serialized.count;
+    summary.sum = serialized.sum;
+    summary.min = serialized.min;
+    summary.max = serialized.max;
+    if (serialized.sketch) {
+      summary.sketch = DDSketch.restore(serialized.sketch);
+    }
+    return summary;
+  }
+
+  // Returns the sketch, or a new one holding the values min and max stand for while it has not been allocated
+  private toSketch(): DDSketch {
+    if (this.sketch) {
+      return this.sketch;
+    }
+    const sketch = new DDSketch();
+    if (this.count) {
+      sketch.add(this.min);
+    }
+    if (this.count === 2) {
+      sketch.add(this.max);
+    }
+    return sketch;
+  }
+}
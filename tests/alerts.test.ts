@@ -0,0 +1,165 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { AlertManager } from '../src/alerts.js';
+import type { AlertRuleInput, AlertTransition } from '../src/alerts.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import type { Event } from '../src/types.js';
+
+describe('AlertManager', () => {
+  let store: InMemoryStore;
+  let notifications: AlertTransition[];
+  let alerts: AlertManager;
+  let now: number;
+
+  const lowEuPurchases: AlertRuleInput = {
+    name: 'Low EU purchases',
+    metric: 'count',
+    window_sec: 60,
+    filters: { type: ['purchase'], region: ['eu'] },
+    operator: '<',
+    threshold: 2,
+    for_sec: 2,
+  };
+
+  const ingest = (event: Omit<Event, 'ts'>) => {
+    const fullEvent = { ...event, ts: new Date(now * 1000).toISOString() };
+    store.validateEvent(fullEvent, now);
+    store.updateRingBuffer(fullEvent, now);
+  };
+
+  beforeEach(() => {
+    now = Math.floor(Date.now() / 1000);
+    store = new InMemoryStore();
+    store.updateReferenceTable({ 'u-123': { region: 'eu' }, 'u-456': { region: 'us' } }, new Date(now * 1000).toISOString());
+    notifications = [];
+    alerts = new AlertManager(store, DEFAULT_CONFIG, async transition => {
+      notifications.push(transition);
+    });
+  });
+
+  it('should go pending, then fire once the condition has held for for_sec, then resolve', () => {
+    const rule = alerts.createRule(lowEuPurchases);
+    expect(alerts.getStatuses()).toEqual([
+      { rule_id: rule.id, rule_name: 'Low EU purchases', state: 'inactive', value: null, since: null, evaluated_at: null },
+    ]);
+
+    alerts.evaluate(now);
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'pending', value: 0 });
+    alerts.evaluate(++now);
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'pending' });
+    alerts.evaluate(++now);
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'firing', since: new Date(now * 1000).toISOString() });
+    expect(notifications.map(n => [n.from, n.to, n.value])).toEqual([['pending', 'firing', 0]]);
+
+    // Only EU purchases count towards the rule
+    ingest({ event_id: 'uuid-1', user_id: 'u-456', type: 'purchase' });
+    ingest({ event_id: 'uuid-2', user_id: 'u-123', type: 'click' });
+    alerts.evaluate(++now);
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'firing', value: 0 });
+
+    ingest({ event_id: 'uuid-3', user_id: 'u-123', type: 'purchase' });
+    ingest({ event_id: 'uuid-4', user_id: 'u-123', type: 'purchase' });
+    alerts.evaluate(++now);
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'resolved', value: 2 });
+    expect(notifications.map(n => n.to)).toEqual(['firing', 'resolved']);
+
+    expect(alerts.getHistory().map(t => `${t.from}->${t.to}`)).toEqual(['firing->resolved', 'pending->firing', 'inactive->pending']);
+  });
+
+  it('should return to inactive without notifying when a pending condition clears', () => {
+    alerts.createRule({ ...lowEuPurchases, for_sec: 10 });
+    alerts.evaluate(now);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'purchase' });
+    ingest({ event_id: 'uuid-2', user_id: 'u-123', type: 'purchase' });
+    alerts.evaluate(++now);
+
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'inactive', value: 2 });
+    expect(alerts.getHistory().map(t => t.to)).toEqual(['inactive', 'pending']);
+    expect(notifications).toEqual([]);
+  });
+
+  it('should fire on the first evaluation for ratios over the threshold without for_sec', () => {
+    alerts.createRule({ name: 'Unknown users', metric: 'unknown_ratio', window_sec: 300, operator: '>', threshold: 0.2 });
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click' });
+    ingest({ event_id: 'uuid-2', user_id: 'u-unknown', type: 'click' });
+    alerts.evaluate(now);
+
+    expect(alerts.getStatuses()[0]).toMatchObject({ state: 'firing', value: 0.5 });
+    expect(notifications[0]).toMatchObject({ from: 'inactive', to: 'firing', metric: 'unknown_ratio', threshold: 0.2, value: 0.5 });
+  });
+
+  it('should update, delete and bound the history of rules', () => {
+    const limited = new AlertManager(store, { ...DEFAULT_CONFIG, alertHistoryLimit: 2 }, async () => {});
+    const rule = limited.createRule({ ...lowEuPurchases, for_sec: 0 });
+    limited.evaluate(now);
+
+    // The firing state carries over to the new definition and resolves against it
+    const updated = limited.updateRule(rule.id, { ...lowEuPurchases, name: 'No EU purchases', threshold: 0, for_sec: 0 });
+    expect(updated).toMatchObject({ id: rule.id, name: 'No EU purchases', created_at: rule.created_at });
+    limited.evaluate(++now);
+    limited.updateRule(rule.id, { ...lowEuPurchases, for_sec: 0 });
+    limited.evaluate(++now);
+
+    expect(limited.getHistory().map(t => t.to)).toEqual(['firing', 'resolved']);
+    expect(limited.updateRule('missing', lowEuPurchases)).toBeUndefined();
+    expect(limited.deleteRule(rule.id)).toBe(true);
+    expect(limited.deleteRule(rule.id)).toBe(false);
+    expect(limited.getStatuses()).toEqual([]);
+  });
+
+  it('should evaluate without moving the window back when an event within the clock skew arrived first', () => {
+    const aheadStore = new InMemoryStore();
+    const event = { event_id: 'uuid-1', user_id: 'u-123', type: 'purchase' as const, ts: new Date((now + 60) * 1000).toISOString() };
+    aheadStore.validateEvent(event, now);
+    aheadStore.updateRingBuffer(event, now);
+
+    const aheadAlerts = new AlertManager(aheadStore, DEFAULT_CONFIG, async () => {});
+    aheadAlerts.createRule({ ...lowEuPurchases, for_sec: 0 });
+    expect(() => aheadAlerts.evaluate(now)).not.toThrow();
+    expect(aheadStore.getWindowSec()).toBe(now + 60);
+  });
+
+  it('should log a failed tick and keep ticking', async () => {
+    const consoleError = console.error;
+    const errors: string[] = [];
+    console.error = (message: string) => errors.push(message);
+
+    const failing = new AlertManager({ ...store, getLookbackWindow: () => { throw new Error('disk I/O error'); } }, DEFAULT_CONFIG, async () => {});
+    failing.start();
+    failing.createRule(lowEuPurchases);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 2100));
+    } finally {
+      failing.stop();
+      console.error = consoleError;
+    }
+    expect(errors.length).toBeGreaterThanOrEqual(2);
+    expect(errors[0]).toBe('Failed to evaluate alert rules: disk I/O error');
+  });
+
+  it('should post firing and resolved transitions to the webhook', async () => {
+    const received: AlertTransition[] = [];
+    const delivered = new Promise<void>(resolve => {
+      const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+          received.push(JSON.parse(body));
+          res.end();
+          server.close();
+          resolve();
+        });
+      });
+      server.listen(0, () => {
+        const { port } = server.address() as AddressInfo;
+        const webhookAlerts = new AlertManager(store, { ...DEFAULT_CONFIG, alertWebhookUrl: `http://localhost:${port}/hooks/alerts` });
+        webhookAlerts.createRule({ ...lowEuPurchases, for_sec: 0 });
+        webhookAlerts.evaluate(now);
+      });
+    });
+
+    await delivered;
+    expect(received).toEqual([expect.objectContaining({ rule_name: 'Low EU purchases', from: 'inactive', to: 'firing', value: 0 })]);
+  });
+});
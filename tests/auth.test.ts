@@ -0,0 +1,141 @@
+import request from 'supertest';
+import express from 'express';
+import { createHmac } from 'node:crypto';
+import { Authenticator } from '../src/auth.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import { TenantRegistry } from '../src/tenants.js';
+
+const JWT_SECRET = 'test-secret-that-is-at-least-32-characters';
+
+const signJwt = (claims: Record<string, unknown>, secret: string = JWT_SECRET, alg: string = 'HS256'): string => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+const createApp = (config: Partial<Config>): express.Application => {
+  const authConfig: Config = { ...DEFAULT_CONFIG, ...config };
+  const auth = new Authenticator(authConfig);
+  const tenants = new TenantRegistry(() => new InMemoryStore(authConfig), authConfig);
+  const app = express();
+  app.use(express.json());
+  app.post('/events', auth.require('ingest'), tenants.handle(controllers => controllers.ingestEvents));
+  app.get('/reference/users', auth.require('reference-admin', 'metrics-read'), tenants.handle(controllers => controllers.getReference));
+  app.put('/reference/users', auth.require('reference-admin'), tenants.handle(controllers => controllers.updateReference));
+  app.get('/admin/tenants', auth.require('admin'), tenants.listTenants);
+  return app;
+};
+
+describe('Authenticator', () => {
+  let consoleLog: typeof console.log;
+
+  beforeEach(() => {
+    consoleLog = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = consoleLog;
+  });
+
+  it('should let every request through when no API keys or JWT secret are configured', async () => {
+    const app = createApp({});
+
+    const response = await request(app).put('/reference/users').send({ user_metadata: {}, ts: new Date().toISOString() });
+    expect(response.status).toBe(200);
+  });
+
+  it('should authorize API keys by their roles', async () => {
+    const app = createApp({ apiKeys: { 'key-ingest': ['ingest'], 'key-reader': ['metrics-read'] } });
+
+    const ingest = await request(app).post('/events').set('X-Api-Key', 'key-ingest').send([]);
+    expect(ingest.status).toBe(200);
+
+    const read = await request(app).get('/reference/users').set('X-Api-Key', 'key-reader');
+    expect(read.status).toBe(200);
+
+    const write = await request(app).put('/reference/users').set('X-Api-Key', 'key-reader')
+      .send({ user_metadata: {}, ts: new Date().toISOString() });
+    expect(write.status).toBe(403);
+    expect(write.body).toEqual({ error: 'Forbidden', message: 'Requires the reference-admin role' });
+
+    const admin = await request(app).get('/admin/tenants').set('X-Api-Key', 'key-ingest');
+    expect(admin.status).toBe(403);
+  });
+
+  it('should answer missing and unknown credentials with 401', async () => {
+    const app = createApp({ apiKeys: { 'key-ingest': ['ingest'] } });
+
+    const missing = await request(app).post('/events').send([]);
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(missing.body).toEqual({
+      error: 'Unauthorized',
+      message: 'Missing credentials: send an X-Api-Key header or an Authorization: Bearer token',
+    });
+
+    const unknown = await request(app).post('/events').set('X-Api-Key', 'key-guess').send([]);
+    expect(unknown.status).toBe(401);
+    expect(unknown.body).toEqual({ error: 'Unauthorized', message: 'Unknown API key' });
+
+    const bearer = await request(app).post('/events').set('Authorization', `Bearer ${signJwt({ sub: 'svc', roles: ['ingest'] })}`).send([]);
+    expect(bearer.status).toBe(401);
+    expect(bearer.body.message).toBe('Bearer tokens are not accepted, use an X-Api-Key header');
+  });
+
+  it('should accept HS256 JWTs signed with the secret and authorize them by their roles claim', async () => {
+    const app = createApp({ jwtSecret: JWT_SECRET });
+    const nowSec = Math.floor(Date.now() / 1000);
+
+    const token = signJwt({ sub: 'dashboard', roles: ['metrics-read', 'billing'], exp: nowSec + 60 });
+    const read = await request(app).get('/reference/users').set('Authorization', `Bearer ${token}`);
+    expect(read.status).toBe(200);
+
+    const write = await request(app).put('/reference/users').set('Authorization', `Bearer ${token}`)
+      .send({ user_metadata: {}, ts: new Date().toISOString() });
+    expect(write.status).toBe(403);
+  });
+
+  it.each([
+    ['a wrong secret', signJwt({ sub: 'svc', roles: ['ingest'] }, 'another-secret-that-is-32-characters-long'), 'Bearer token signature is invalid'],
+    ['another algorithm', signJwt({ sub: 'svc', roles: ['ingest'] }, JWT_SECRET, 'none'), 'Bearer token must be signed with HS256, got none'],
+    ['an expired token', signJwt({ sub: 'svc', roles: ['ingest'], exp: 1000 }), 'Bearer token has expired'],
+    ['a token used before nbf', signJwt({ sub: 'svc', roles: ['ingest'], nbf: 4102444800 }), 'Bearer token is not valid yet'],
+    ['a token without roles', signJwt({ sub: 'svc' }), 'Bearer token has no roles claim'],
+    ['a malformed token', 'not-a-jwt', 'Bearer token is not a JWT'],
+  ])('should reject %s with 401', async (_case, token, message) => {
+    const app = createApp({ jwtSecret: JWT_SECRET });
+
+    const response = await request(app).post('/events').set('Authorization', `Bearer ${token}`).send([]);
+    expect(response.status).toBe(401);
+    expect(response.body).toEqual({ error: 'Unauthorized', message });
+  });
+
+  it('should bind credentials to their tenant', async () => {
+    const app = createApp({
+      jwtSecret: JWT_SECRET,
+      apiKeys: { 'key-acme': ['reference-admin'], 'key-ops': ['reference-admin'] },
+      tenantApiKeys: { 'key-acme': 'acme' },
+    });
+    const ts = new Date().toISOString();
+
+    await request(app).put('/reference/users').set('X-Api-Key', 'key-acme').send({ user_metadata: { 'u-1': { plan: 'pro' } }, ts });
+
+    // A JWT tenant claim binds like a tenant API key
+    const token = signJwt({ sub: 'acme-dashboard', roles: ['metrics-read'], tenant: 'acme' });
+    const acme = await request(app).get('/reference/users').set('Authorization', `Bearer ${token}`);
+    expect(acme.body.version).toBe(1);
+
+    const otherTenant = await request(app).get('/reference/users').set('Authorization', `Bearer ${token}`).set('X-Tenant-Id', 'globex');
+    expect(otherTenant.status).toBe(403);
+    expect(otherTenant.body).toEqual({ error: 'Forbidden', message: 'Credentials do not belong to tenant globex' });
+
+    // Unbound credentials reach any tenant but those with their own API keys
+    const ops = await request(app).put('/reference/users').set('X-Api-Key', 'key-ops').set('X-Tenant-Id', 'globex').send({ user_metadata: {}, ts });
+    expect(ops.status).toBe(200);
+    const opsAcme = await request(app).get('/reference/users').set('X-Api-Key', 'key-ops').set('X-Tenant-Id', 'acme');
+    expect(opsAcme.status).toBe(403);
+  });
+});
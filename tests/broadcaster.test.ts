@@ -0,0 +1,91 @@
+import { MetricsBroadcaster } from '../src/broadcaster.js';
+
+describe('MetricsBroadcaster', () => {
+  // Resolves just after the next wall clock second, once the broadcaster has ticked
+  const nextTick = () => new Promise(resolve => setTimeout(resolve, 1000 - (Date.now() % 1000) + 50));
+
+  it('should compute once per tick for subscribers sharing parameters', async () => {
+    const advanced: number[] = [];
+    const broadcaster = new MetricsBroadcaster(nowSec => advanced.push(nowSec));
+    let computations = 0;
+    const compute = (nowSec: number) => ({ computation: ++computations, nowSec });
+
+    const first: string[] = [];
+    const second: string[] = [];
+    const unsubscribeFirst = broadcaster.subscribe('window=60', compute, payload => first.push(payload));
+    const unsubscribeSecond = broadcaster.subscribe('window=60', compute, payload => second.push(payload));
+
+    // The second subscriber gets the channel's latest metrics instead of a computation of its own
+    expect(computations).toBe(1);
+    expect(second).toEqual(first);
+    expect(broadcaster.getStats()).toEqual({ channels: 1, subscribers: 2 });
+
+    await nextTick();
+    expect(computations).toBe(2);
+    expect(first).toHaveLength(2);
+    expect(second).toEqual(first);
+    expect(JSON.parse(first[1] as string).nowSec).toBe(advanced[advanced.length - 1]);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    expect(broadcaster.getStats()).toEqual({ channels: 0, subscribers: 0 });
+
+    // No subscribers left, so the tick stops
+    await nextTick();
+    expect(computations).toBe(2);
+  });
+
+  it('should compute separately per parameters and keep ticking when one channel fails', async () => {
+    const broadcaster = new MetricsBroadcaster(() => {});
+    const received: string[] = [];
+    let failing = false;
+    const errors: string[] = [];
+    const consoleError = console.error;
+    console.error = (message: string) => errors.push(message);
+
+    const unsubscribeFailing = broadcaster.subscribe('window=60', () => {
+      if (failing) {
+        throw new Error('boom');
+      }
+      return { window: 60 };
+    }, () => {});
+    const unsubscribe = broadcaster.subscribe('window=300', () => ({ window: 300 }), payload => received.push(payload));
+    expect(broadcaster.getStats()).toEqual({ channels: 2, subscribers: 2 });
+
+    failing = true;
+    await nextTick();
+    expect(received).toEqual(['{"window":300}', '{"window":300}']);
+    expect(errors).toEqual([expect.stringContaining('boom')]);
+
+    unsubscribeFailing();
+    unsubscribe();
+    console.error = consoleError;
+  });
+
+  it('should keep ticking when advancing the sliding window fails', async () => {
+    let failing = false;
+    const broadcaster = new MetricsBroadcaster(() => {
+      if (failing) {
+        throw new Error('store unavailable');
+      }
+    });
+    const received: string[] = [];
+    const errors: string[] = [];
+    const consoleError = console.error;
+    console.error = (message: string) => errors.push(message);
+
+    const unsubscribe = broadcaster.subscribe('window=60', () => ({ window: 60 }), payload => received.push(payload));
+
+    failing = true;
+    await nextTick();
+    expect(errors[0]).toContain('store unavailable');
+    expect(received).toHaveLength(1);
+
+    failing = false;
+    await nextTick();
+    expect(received.length).toBeGreaterThan(1);
+
+    unsubscribe();
+    console.error = consoleError;
+  });
+});
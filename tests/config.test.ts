@@ -0,0 +1,132 @@
+import { DEFAULT_CONFIG, loadConfig } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import type { Event } from '../src/types.js';
+
+describe('Config', () => {
+  describe('loadConfig', () => {
+    it('should fall back to defaults when nothing is set', () => {
+      expect(loadConfig({})).toEqual(DEFAULT_CONFIG);
+    });
+
+    it('should read settings from the environment', () => {
+      const config = loadConfig({
+        PORT: '8080',
+        LATENESS_SEC: '10',
+        MAX_CLOCK_SKEW_SEC: '5',
+        MAX_RETENTION_SEC: '21600',
+        DATA_DIR: '/var/lib/events',
+      });
+
+      expect(config).toEqual({
+        ...DEFAULT_CONFIG,
+        port: 8080,
+        latenessSec: 10,
+        maxClockSkewSec: 5,
+        maxRetentionSec: 21600,
+        dataDir: '/var/lib/events',
+      });
+    });
+
+    it('should read the alert webhook URL and reject anything but http(s) URLs', () => {
+      expect(loadConfig({ ALERT_WEBHOOK_URL: 'http://localhost:9000/alerts' }).alertWebhookUrl).toBe('http://localhost:9000/alerts');
+      expect(() => loadConfig({ ALERT_WEBHOOK_URL: 'ftp://example.com' })).toThrow(
+        'ALERT_WEBHOOK_URL must be an http or https URL, got "ftp://example.com"',
+      );
+    });
+
+    it('should select the storage backend and keep DATA_DIR to the memory backend', () => {
+      expect(loadConfig({ STORAGE_BACKEND: 'sqlite', SQLITE_PATH: '/var/lib/events.sqlite' })).toMatchObject({
+        storageBackend: 'sqlite',
+        sqlitePath: '/var/lib/events.sqlite',
+      });
+      expect(() => loadConfig({ STORAGE_BACKEND: 'postgres' })).toThrow('STORAGE_BACKEND must be one of memory, sqlite, got "postgres"');
+      expect(() => loadConfig({ STORAGE_BACKEND: 'sqlite', DATA_DIR: '/var/lib/events' })).toThrow(
+        'DATA_DIR is only supported with STORAGE_BACKEND=memory, got "sqlite"',
+      );
+    });
+
+    it('should read tenant API keys and quotas', () => {
+      expect(loadConfig({
+        TENANT_API_KEYS: 'key-acme:acme, key-globex:globex',
+        MAX_TENANTS: '10',
+        TENANT_EVENTS_PER_SEC: '500',
+        TENANT_MAX_MEMORY_MB: '64',
+      })).toMatchObject({
+        tenantApiKeys: { 'key-acme': 'acme', 'key-globex': 'globex' },
+        maxTenants: 10,
+        tenantEventsPerSec: 500,
+        tenantMaxMemoryMb: 64,
+      });
+      expect(loadConfig({}).tenantEventsPerSec).toBeUndefined();
+      expect(() => loadConfig({ TENANT_API_KEYS: 'key-acme:Acme Corp' })).toThrow(
+        'TENANT_API_KEYS must be comma separated apiKey:tenantId pairs',
+      );
+    });
+
+    it('should read API key roles and the JWT secret, and require roles for tenant keys once authentication is enabled', () => {
+      const secret = 'x'.repeat(32);
+      expect(loadConfig({ API_KEYS: 'key-ingest:ingest, key-ops:reference-admin+metrics-read', JWT_SECRET: secret })).toMatchObject({
+        apiKeys: { 'key-ingest': ['ingest'], 'key-ops': ['reference-admin', 'metrics-read'] },
+        jwtSecret: secret,
+      });
+      expect(() => loadConfig({ API_KEYS: 'key-ops:reference-admin+root' })).toThrow(
+        'API_KEYS must be comma separated apiKey:roles pairs with roles from ingest, reference-admin, metrics-read, alerts-admin, admin joined by +, got roles "reference-admin+root"',
+      );
+      expect(() => loadConfig({ JWT_SECRET: 'short' })).toThrow('JWT_SECRET must be at least 32 characters, got 5');
+      expect(() => loadConfig({ JWT_SECRET: secret, TENANT_API_KEYS: 'key-acme:acme' })).toThrow(
+        'TENANT_API_KEYS has keys without roles in API_KEYS, for tenants acme',
+      );
+    });
+
+    it('should read rate, size and concurrency limits', () => {
+      expect(loadConfig({
+        RATE_LIMIT_PER_SEC: '50',
+        RATE_LIMIT_BURST: '75',
+        MAX_BATCH_SIZE: '500',
+        MAX_BODY_BYTES: '262144',
+        MAX_CONCURRENT_INGESTS: '8',
+      })).toMatchObject({ rateLimitPerSec: 50, rateLimitBurst: 75, maxBatchSize: 500, maxBodyBytes: 262144, maxConcurrentIngests: 8 });
+    });
+
+    it('should read the summarized numeric properties', () => {
+      expect(loadConfig({}).summarizedProperties).toEqual([]);
+      expect(loadConfig({ SUMMARIZED_PROPERTIES: 'load_time_ms, items,' }).summarizedProperties).toEqual(['load_time_ms', 'items']);
+    });
+
+    it('should reject values that are not positive integers', () => {
+      expect(() => loadConfig({ LATENESS_SEC: 'soon', MAX_RETENTION_SEC: '-1' })).toThrow(
+        'Invalid configuration: LATENESS_SEC must be a positive integer, got "soon"; MAX_RETENTION_SEC must be a positive integer, got "-1"',
+      );
+    });
+
+    it('should reject lateness and skew that do not fit in the retention window', () => {
+      expect(() => loadConfig({ LATENESS_SEC: '600', MAX_CLOCK_SKEW_SEC: '120', MAX_RETENTION_SEC: '600' })).toThrow(
+        'LATENESS_SEC + MAX_CLOCK_SKEW_SEC (720) must be less than MAX_RETENTION_SEC (600)',
+      );
+      // now - 900 and now + 900 would share a slot of an 1800 second ring buffer
+      expect(() => loadConfig({ LATENESS_SEC: '900', MAX_CLOCK_SKEW_SEC: '900', MAX_RETENTION_SEC: '1800' })).toThrow(
+        'LATENESS_SEC + MAX_CLOCK_SKEW_SEC (1800) must be less than MAX_RETENTION_SEC (1800)',
+      );
+      expect(loadConfig({ LATENESS_SEC: '900', MAX_CLOCK_SKEW_SEC: '899', MAX_RETENTION_SEC: '1800' }).maxRetentionSec).toBe(1800);
+    });
+  });
+
+  describe('InMemoryStore with custom config', () => {
+    it('should apply configured lateness and skew limits in validation messages', () => {
+      const store = new InMemoryStore({ ...DEFAULT_CONFIG, latenessSec: 10, maxClockSkewSec: 90 });
+      const now = Math.floor(Date.now() / 1000);
+      const lateEvent: Event = { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date((now - 11) * 1000).toISOString() };
+      const skewedEvent: Event = { event_id: 'uuid-2', user_id: 'u-123', type: 'click', ts: new Date((now + 91) * 1000).toISOString() };
+
+      expect(() => store.validateEvent(lateEvent, now)).toThrow('Event uuid-1 timestamp is outside the 10 second lateness threshold.');
+      expect(() => store.validateEvent(skewedEvent, now)).toThrow('Event uuid-2 timestamp is more than 90 seconds skewed.');
+    });
+
+    it('should size the lookback window to the configured retention', () => {
+      const store = new InMemoryStore({ ...DEFAULT_CONFIG, maxRetentionSec: 600 });
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(() => store.getLookbackWindow(601, now)).toThrow('Window parameter exceeds maximum lookback window of 600s');
+    });
+  });
+});
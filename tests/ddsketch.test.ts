@@ -0,0 +1,74 @@
+import { DDSketch } from '../src/ddsketch.js';
+
+describe('DDSketch', () => {
+  const RELATIVE_ACCURACY = 0.01;
+
+  // Exact nearest-rank quantile of sorted values
+  const exactQuantile = (sorted: number[], q: number): number => {
+    return sorted[Math.max(1, Math.ceil(q * sorted.length)) - 1] as number;
+  };
+
+  it.each([0.01, 0.5, 0.9, 0.99, 1])('should estimate quantile %p of a skewed distribution within the relative accuracy', (q) => {
+    const sketch = new DDSketch(RELATIVE_ACCURACY);
+    const values: number[] = [];
+    // Long tailed, like page load times in ms
+    for (let i = 1; i <= 10000; i++) {
+      const value = 50 + 1000 * (i / 10000) ** 4;
+      values.push(value);
+      sketch.add(value);
+    }
+
+    const exact = exactQuantile(values.sort((a, b) => a - b), q);
+    expect(Math.abs((sketch.quantile(q) as number) - exact) / exact).toBeLessThanOrEqual(RELATIVE_ACCURACY);
+  });
+
+  it('should order negative values, zeros and positive values', () => {
+    const sketch = new DDSketch();
+    for (const value of [-100, -1, 0, 0, 1, 100]) {
+      sketch.add(value);
+    }
+
+    expect(sketch.count).toBe(6);
+    expect(sketch.quantile(0)).toBeCloseTo(-100, 0);
+    expect(sketch.quantile(2 / 6)).toBeCloseTo(-1, 1);
+    expect(sketch.quantile(0.5)).toBe(0);
+    expect(sketch.quantile(1)).toBeCloseTo(100, 0);
+    expect(new DDSketch().quantile(0.5)).toBeNull();
+  });
+
+  it('should merge into the same sketch as adding every value to one', () => {
+    const merged = new DDSketch();
+    const single = new DDSketch();
+    for (let i = 1; i <= 1000; i++) {
+      const part = new DDSketch();
+      part.add(i);
+      merged.merge(part);
+      single.add(i);
+    }
+
+    expect(merged.serialize()).toEqual(single.serialize());
+    expect(() => merged.merge(new DDSketch(0.05))).toThrow('Cannot merge');
+  });
+
+  it('should bound its bins by collapsing the smallest magnitudes', () => {
+    const sketch = new DDSketch(RELATIVE_ACCURACY, 64);
+    for (let exponent = -6; exponent <= 6; exponent += 0.01) {
+      sketch.add(10 ** exponent);
+    }
+
+    expect(sketch.serialize().positive.length).toBeLessThanOrEqual(64);
+    // Upper quantiles are unaffected by collapsing
+    expect(Math.abs((sketch.quantile(1) as number) - 1e6) / 1e6).toBeLessThanOrEqual(RELATIVE_ACCURACY);
+  });
+
+  it('should restore from serialized form', () => {
+    const sketch = new DDSketch();
+    for (const value of [-3, 0, 2.5, 40, 900]) {
+      sketch.add(value);
+    }
+
+    const restored = DDSketch.restore(JSON.parse(JSON.stringify(sketch.serialize())));
+    expect(restored.count).toBe(5);
+    expect(restored.serialize()).toEqual(sketch.serialize());
+  });
+});
@@ -1,11 +1,14 @@
-import { InMemoryStore } from '../src/storage.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Store } from '../src/store.js';
+import { describeEachStore } from './store-backends.js';
 import type { Event, UserMetadata } from '../src/types.js';
+import { MAX_RETENTION_SEC } from '../src/utils.js';
 
-describe('Event Enrichment Logic', () => {
-  let store: InMemoryStore;
+describeEachStore('Event Enrichment Logic', createStore => {
+  let store: Store;
 
   beforeEach(() => {
-    store = new InMemoryStore();
+    store = createStore();
   });
 
   describe('enrichEvent', () => {
@@ -122,5 +125,51 @@ describe('Event Enrichment Logic', () => {
       expect(enrichedEvent.metadata?.user).toEqual({ plan: 'pro', region: 'eu' });
     });
   });
+
+  describe('getReferenceTableAt', () => {
+    it('should return the generation active at a second and forget generations replaced before the retention', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const iso = (sec: number) => new Date(sec * 1000).toISOString();
+
+      store.updateReferenceTable({ "u-123": { plan: 'free' } }, iso(now - 20));
+      store.patchReferenceTable({ upsert: { "u-123": { plan: 'pro' } }, delete: [] }, iso(now - 10), 1);
+
+      expect(store.getReferenceTableAt(now - 30).get('u-123')).toBeUndefined();
+      expect(store.getReferenceTableAt(now - 15).get('u-123')).toEqual({ plan: 'free' });
+      expect(store.getReferenceTableAt(now - 10).get('u-123')).toEqual({ plan: 'pro' });
+
+      // Once the window moves past the swap, only the generation active at its oldest second is kept
+      store.advanceSlidingWindow(now);
+      store.advanceSlidingWindow(now - 15 + MAX_RETENTION_SEC);
+      expect(store.getReferenceTableAt(now - 30).get('u-123')).toEqual({ plan: 'free' });
+      store.advanceSlidingWindow(now - 10 + MAX_RETENTION_SEC);
+      expect(store.getReferenceTableAt(now - 30).get('u-123')).toEqual({ plan: 'pro' });
+    });
+  });
+
+  describe('getReferenceAttributeValues', () => {
+    it('should keep values of replaced generations until they are pruned', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const iso = (sec: number) => new Date(sec * 1000).toISOString();
+
+      store.updateReferenceTable({ "u-123": { plan: 'free', region: 'eu' } }, iso(now - 20));
+      store.updateReferenceTable({ "u-123": { plan: 'pro' } }, iso(now - 10));
+      expect(store.getReferenceAttributeValues()).toEqual(new Map([['plan', new Set(['free', 'pro'])], ['region', new Set(['eu'])]]));
+
+      store.advanceSlidingWindow(now);
+      store.advanceSlidingWindow(now - 10 + MAX_RETENTION_SEC);
+      expect(store.getReferenceAttributeValues()).toEqual(new Map([['plan', new Set(['pro'])]]));
+    });
+
+    it('should drop values of generations beyond the history limit', () => {
+      store = createStore({ ...DEFAULT_CONFIG, referenceHistoryLimit: 1 });
+      const ts = new Date().toISOString();
+
+      store.updateReferenceTable({ "u-123": { plan: 'free' } }, ts);
+      store.updateReferenceTable({ "u-123": { plan: 'pro' } }, ts);
+      store.updateReferenceTable({ "u-123": { plan: 'team' } }, ts);
+      expect(store.getReferenceAttributeValues()).toEqual(new Map([['plan', new Set(['pro', 'team'])]]));
+    });
+  });
 });
 
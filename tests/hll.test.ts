@@ -0,0 +1,60 @@
+import { HyperLogLog } from '../src/hll.js';
+
+describe('HyperLogLog', () => {
+  // 3 standard errors at the default precision of 12 (1.04 / sqrt(4096) ≈ 1.6%)
+  const MAX_RELATIVE_ERROR = 3 * 1.04 / Math.sqrt(4096);
+
+  const exactAndEstimate = (count: number, prefix: string = 'u-') => {
+    const sketch = new HyperLogLog();
+    const exact = new Set<string>();
+    for (let i = 0; i < count; i++) {
+      const userId = `${prefix}${i}`;
+      sketch.add(userId);
+      exact.add(userId);
+    }
+    return { sketch, exact };
+  };
+
+  it.each([10, 1000, 10000, 100000])('should estimate %i distinct users within error bounds of the exact counter', (count) => {
+    const { sketch, exact } = exactAndEstimate(count);
+
+    const relativeError = Math.abs(sketch.count() - exact.size) / exact.size;
+    expect(relativeError).toBeLessThanOrEqual(MAX_RELATIVE_ERROR);
+  });
+
+  it('should count small sets exactly', () => {
+    const { sketch } = exactAndEstimate(3);
+    expect(sketch.count()).toBe(3);
+    expect(new HyperLogLog().count()).toBe(0);
+  });
+
+  it('should ignore repeated values', () => {
+    const sketch = new HyperLogLog();
+    for (let i = 0; i < 1000; i++) {
+      sketch.add(`u-${i % 50}`);
+    }
+    expect(sketch.count()).toBe(50);
+  });
+
+  it('should estimate the union of merged sketches within error bounds', () => {
+    // Two overlapping populations, like the same users active in consecutive buckets
+    const first = exactAndEstimate(20000);
+    const second = new HyperLogLog();
+    const union = new Set(first.exact);
+    for (let i = 10000; i < 30000; i++) {
+      second.add(`u-${i}`);
+      union.add(`u-${i}`);
+    }
+
+    first.sketch.merge(second);
+
+    const relativeError = Math.abs(first.sketch.count() - union.size) / union.size;
+    expect(relativeError).toBeLessThanOrEqual(MAX_RELATIVE_ERROR);
+  });
+
+  it('should reject merging sketches with different precisions', () => {
+    expect(() => new HyperLogLog(12).merge(new HyperLogLog(10))).toThrow(
+      'Cannot merge HyperLogLog sketches with precision 10 and 12',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { Readable } from 'node:stream';
+import { importReferenceTable } from '../src/importer.js';
+import { ReferenceImportError } from '../src/errors.js';
+
+describe('Reference Table Import', () => {
+  const importText = (text: string, format: 'csv' | 'ndjson') => importReferenceTable(Readable.from([text]), format);
+
+  it('should parse CSV with quoted fields and leave empty cells out', async () => {
+    const csv = [
+      'user_id,plan,region,company',
+      'u-123,pro,eu,"Acme, Inc."',
+      'u-456,free,,"The ""Best"" Co"',
+      '',
+    ].join('\r\n');
+
+    expect(await importText(csv, 'csv')).toEqual({
+      "u-123": { plan: 'pro', region: 'eu', company: 'Acme, Inc.' },
+      "u-456": { plan: 'free', company: 'The "Best" Co' },
+    });
+  });
+
+  it('should parse NDJSON rows split across chunks', async () => {
+    const chunks = ['{"user_id": "u-123", "plan": "pro"}\n{"user_id": "u-4', '56", "plan": "free"}\n'];
+
+    expect(await importReferenceTable(Readable.from(chunks), 'ndjson')).toEqual({
+      "u-123": { plan: 'pro' },
+      "u-456": { plan: 'free' },
+    });
+  });
+
+  it('should report every invalid row by line number', async () => {
+    const csv = 'user_id,plan\nu-123,pro\n,free\nu-123,team\nu-789,pro,extra\n';
+
+    const error = await importText(csv, 'csv').catch(error => error);
+    expect(error).toBeInstanceOf(ReferenceImportError);
+    expect(error.errors).toEqual([
+      { line: 3, code: 'required', path: 'user_id', message: 'user_id is required' },
+      { line: 4, code: 'duplicate', path: 'user_id', message: 'duplicate user_id u-123, first seen on line 2' },
+      { line: 5, code: 'invalid_format', path: '', message: 'expected 2 fields, got 3' },
+    ]);
+  });
+
+  it('should stop at a header row without a user_id column', async () => {
+    const error = await importText('id,plan\nu-123,pro\n', 'csv').catch(error => error);
+    expect(error.errors).toEqual([{ line: 1, code: 'required', path: 'user_id', message: 'header row must have a user_id column' }]);
+  });
+});
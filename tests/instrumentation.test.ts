@@ -0,0 +1,120 @@
+import request from 'supertest';
+import express from 'express';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { ServiceMetrics } from '../src/instrumentation.js';
+import { InMemoryStore } from '../src/storage.js';
+import { TenantRegistry } from '../src/tenants.js';
+import type { Event } from '../src/types.js';
+
+const makeEvent = (id: string, offsetSec: number = 0): Event => ({
+  event_id: id,
+  user_id: 'u-1',
+  type: 'click',
+  ts: new Date(Date.now() + offsetSec * 1000).toISOString(),
+});
+
+// Returns the value of the sample with exactly this name and labels
+const sample = (exposition: string, series: string): number | undefined => {
+  const line = exposition.split('\n').find(candidate => candidate.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+};
+
+describe('ServiceMetrics', () => {
+  let consoleLog: typeof console.log;
+  let app: express.Application;
+
+  beforeEach(() => {
+    consoleLog = console.log;
+    console.log = () => {};
+
+    const metrics = new ServiceMetrics();
+    const tenants = new TenantRegistry(() => new InMemoryStore(DEFAULT_CONFIG), DEFAULT_CONFIG, metrics);
+    app = express();
+    app.use(metrics.observeRequests);
+    app.use(express.json());
+    app.post('/events', tenants.handle(controllers => controllers.ingestEvents));
+    app.put('/reference/users', tenants.handle(controllers => controllers.updateReference));
+    app.get('/internal/metrics', metrics.handleScrape(tenants.getStores));
+  });
+
+  afterEach(() => {
+    console.log = consoleLog;
+  });
+
+  it('should count accepted events and rejections by reason per tenant', async () => {
+    await request(app).post('/events').send([
+      makeEvent('e-1'),
+      makeEvent('e-2'),
+      makeEvent('e-1'), // duplicate
+      makeEvent('e-3', 3600), // skewed into the future
+      makeEvent('e-4', -600), // later than the lateness threshold
+      { ...makeEvent('e-5'), type: 'hover' }, // not in the schema
+    ]);
+    await request(app).post('/events').set('X-Tenant-Id', 'acme').send([makeEvent('e-1')]);
+
+    const response = await request(app).get('/internal/metrics');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/plain; charset=utf-8; version=0.0.4');
+    expect(response.text).toContain('# TYPE analytics_events_rejected_total counter');
+
+    expect(sample(response.text, 'analytics_events_accepted_total{tenant="default"}')).toBe(2);
+    expect(sample(response.text, 'analytics_events_accepted_total{tenant="acme"}')).toBe(1);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="default",reason="duplicate"}')).toBe(1);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="default",reason="skew"}')).toBe(1);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="default",reason="late"}')).toBe(1);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="default",reason="schema"}')).toBe(1);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="default",reason="retention"}')).toBe(0);
+    expect(sample(response.text, 'analytics_events_rejected_total{tenant="acme",reason="duplicate"}')).toBe(0);
+  });
+
+  it('should expose ring buffer, dedup and reference gauges per tenant', async () => {
+    await request(app).post('/events').send([makeEvent('e-1'), makeEvent('e-2')]);
+    const referenceTs = new Date(Date.now() - 60 * 1000).toISOString();
+    await request(app).put('/reference/users').send({ user_metadata: { 'u-1': { plan: 'pro' } }, ts: referenceTs });
+    await request(app).post('/events').set('X-Tenant-Id', 'acme').send([]);
+
+    const { text } = await request(app).get('/internal/metrics');
+    expect(sample(text, 'analytics_ring_buffer_events{tenant="default"}')).toBe(2);
+    expect(sample(text, 'analytics_dedup_event_ids{tenant="default"}')).toBe(2);
+    expect(sample(text, 'analytics_reference_generation{tenant="default"}')).toBe(1);
+    expect(sample(text, 'analytics_reference_age_seconds{tenant="default"}')).toBeGreaterThanOrEqual(60);
+    expect(sample(text, 'analytics_reference_generation{tenant="acme"}')).toBe(0);
+    expect(sample(text, 'analytics_reference_age_seconds{tenant="acme"}')).toBeUndefined();
+  });
+
+  it('should record request latency histograms per method, route and status', async () => {
+    await request(app).post('/events').send([makeEvent('e-1')]);
+    await request(app).post('/events').send([makeEvent('e-2')]);
+    await request(app).get('/nowhere');
+
+    const { text } = await request(app).get('/internal/metrics');
+    const labels = 'method="POST",route="/events",status="200"';
+    expect(text).toContain('# TYPE analytics_http_request_duration_seconds histogram');
+    expect(sample(text, `analytics_http_request_duration_seconds_count{${labels}}`)).toBe(2);
+    expect(sample(text, `analytics_http_request_duration_seconds_bucket{${labels},le="+Inf"}`)).toBe(2);
+    expect(sample(text, `analytics_http_request_duration_seconds_bucket{${labels},le="10"}`)).toBe(2);
+    expect(sample(text, `analytics_http_request_duration_seconds_sum{${labels}}`)).toBeGreaterThan(0);
+    expect(sample(text, 'analytics_http_request_duration_seconds_count{method="GET",route="unmatched",status="404"}')).toBe(1);
+  });
+
+  it('should count events the ring buffer refuses as outside the retention', async () => {
+    const metrics = new ServiceMetrics();
+    const store = new InMemoryStore(DEFAULT_CONFIG);
+    const instrumented = metrics.instrumentStore('default', store);
+    const nowSec = Math.floor(Date.now() / 1000);
+
+    // A clock an hour ahead moves the ring buffer past an event that is on time for its own clock
+    const ahead = makeEvent('e-1', 3600);
+    instrumented.validateEvent(ahead, nowSec + 3600);
+    instrumented.updateRingBuffer(ahead, nowSec + 3600);
+    const behind = makeEvent('e-2');
+    instrumented.validateEvent(behind, nowSec);
+    expect(() => instrumented.updateRingBuffer(behind, nowSec)).toThrow('Event timestamp is more than 1800 seconds away from current time');
+
+    const scrapeApp = express();
+    scrapeApp.get('/internal/metrics', metrics.handleScrape(() => new Map([['default', store]])));
+    const { text } = await request(scrapeApp).get('/internal/metrics');
+    expect(sample(text, 'analytics_events_accepted_total{tenant="default"}')).toBe(1);
+    expect(sample(text, 'analytics_events_rejected_total{tenant="default",reason="retention"}')).toBe(1);
+  });
+});
@@ -1,25 +1,41 @@
 import request from 'supertest';
 import express from 'express';
-import { InMemoryStore } from '../src/storage.js';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Store } from '../src/store.js';
+import { describeEachStore } from './store-backends.js';
 import { Controllers } from '../src/controllers.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
 import type { Event, UserMetadata } from '../src/types.js';
 
-describe('Integration Test: POST -> GET Flow', () => {
+describeEachStore('Integration Test: POST -> GET Flow', createStore => {
   let app: express.Application;
-  let store: InMemoryStore;
+  let store: Store;
 
   beforeEach(() => {
     // Setup fresh app and store for each test
     app = express();
-    store = new InMemoryStore();
-    const controllers = new Controllers(store);
+    const config: Config = { ...DEFAULT_CONFIG, summarizedProperties: ['load_time_ms'] };
+    store = createStore(config);
+    const controllers = new Controllers(store, config);
 
     app.use(express.json());
     app.use(express.urlencoded({ extended: true }));
 
     app.post('/events', controllers.ingestEvents);
     app.put('/reference/users', controllers.updateReference);
+    app.patch('/reference/users', controllers.patchReference);
+    app.get('/reference/users', controllers.getReference);
     app.get('/metrics', controllers.getMetrics);
+    app.get('/metrics/timeseries', controllers.getTimeseries);
+    app.get('/metrics/stream', controllers.streamMetrics);
+    app.post('/alerts/rules', controllers.createAlertRule);
+    app.get('/alerts/rules', controllers.listAlertRules);
+    app.get('/alerts/rules/:id', controllers.getAlertRule);
+    app.put('/alerts/rules/:id', controllers.updateAlertRule);
+    app.delete('/alerts/rules/:id', controllers.deleteAlertRule);
+    app.get('/alerts', controllers.getAlerts);
     app.get('/healthz', controllers.healthCheck);
   });
 
@@ -281,6 +297,825 @@ describe('Integration Test: POST -> GET Flow', () => {
     expect(getResponse.body.by_region.eu).toBe(2);
   });
 
+  it('should re-enrich already ingested events after a reference table swap', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: { "u-123": { plan: 'free', region: 'us' } },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: now.toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-123', type: 'view', ts: now.toISOString() },
+      { event_id: 'uuid-3', user_id: 'u-456', type: 'view', ts: now.toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    // Swap the reference table after ingest: counts must follow the new snapshot
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'eu' },
+          "u-456": { plan: 'free', region: 'us' },
+        },
+        ts: new Date(now.getTime() + 1000).toISOString(),
+      });
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 300 });
+
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.body.unique_users).toBe(2);
+    expect(getResponse.body.unknown).toBe(0);
+    expect(getResponse.body.by_plan).toEqual({ free: 1, pro: 2, __missing__: 0 });
+    expect(getResponse.body.by_region).toEqual({ us: 1, eu: 2, __missing__: 0 });
+  });
+
+  it('should group by arbitrary reference attributes with a bucket for missing values', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'enterprise', region: 'apac', industry: 'retail' },
+          "u-456": { plan: 'team', region: 'eu', industry: 'finance' },
+          "u-789": { plan: 'team', region: 'eu' },
+        },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: now.toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-456', type: 'view', ts: now.toISOString() },
+      { event_id: 'uuid-3', user_id: 'u-789', type: 'view', ts: now.toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 300, group_by: 'plan,industry' });
+
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.body.by_plan).toEqual({ enterprise: 1, team: 2, __missing__: 0 });
+    expect(getResponse.body.by_industry).toEqual({ retail: 1, finance: 1, __missing__: 1 });
+    expect(getResponse.body.by_region).toBeUndefined();
+  });
+
+  it('should cross-tabulate event type, reference attributes and unknown users', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'eu' },
+          "u-456": { plan: 'pro', region: 'eu' },
+          "u-789": { plan: 'free', region: 'us' },
+        },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-3', user_id: 'u-456', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-4', user_id: 'u-456', type: 'click', ts: now.toISOString() },
+      { event_id: 'uuid-5', user_id: 'u-789', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-6', user_id: 'u-000', type: 'view', ts: now.toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 10, crosstab: 'type,plan,region' });
+
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.body.crosstab).toEqual([
+      { key: { type: 'purchase', plan: 'pro', region: 'eu' }, count: 3, unique_users: 2, events_per_sec: 3 / 10, value: {} },
+      { key: { type: 'click', plan: 'pro', region: 'eu' }, count: 1, unique_users: 1, events_per_sec: 1 / 10, value: {} },
+      { key: { type: 'purchase', plan: 'free', region: 'us' }, count: 1, unique_users: 1, events_per_sec: 1 / 10, value: {} },
+      { key: { type: 'view', plan: '__unknown__', region: '__unknown__' }, count: 1, unique_users: 1, events_per_sec: 1 / 10, value: {} },
+    ]);
+  });
+
+  it('should break down by event type and filter aggregated events', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'eu' },
+          "u-456": { plan: 'pro', region: 'us' },
+          "u-789": { plan: 'free', region: 'eu' },
+        },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'view', ts: now.toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-3', user_id: 'u-456', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-4', user_id: 'u-789', type: 'purchase', ts: now.toISOString() },
+      { event_id: 'uuid-5', user_id: 'u-000', type: 'purchase', ts: now.toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    const unfiltered = await request(app)
+      .get('/metrics')
+      .query({ window: 10 });
+
+    expect(unfiltered.body.by_type).toEqual({ click: 0, view: 1, purchase: 4 });
+
+    const filtered = await request(app)
+      .get('/metrics')
+      .query({ window: 10, type: 'purchase', plan: 'pro' });
+
+    expect(filtered.status).toBe(200);
+    expect(filtered.body.events_per_sec).toBe(2 / 10);
+    expect(filtered.body.unique_users).toBe(2);
+    expect(filtered.body.unknown).toBe(0);
+    expect(filtered.body.by_type).toEqual({ click: 0, view: 0, purchase: 2 });
+    expect(filtered.body.by_region).toEqual({ us: 1, eu: 1, __missing__: 0 });
+
+    const byUser = await request(app)
+      .get('/metrics')
+      .query({ window: 10, user_id: 'u-123,u-000' });
+
+    expect(byUser.body.events_per_sec).toBe(3 / 10);
+    expect(byUser.body.unknown).toBe(1);
+    expect(byUser.body.by_type).toEqual({ click: 0, view: 1, purchase: 2 });
+
+    const invalid = await request(app)
+      .get('/metrics')
+      .query({ type: 'signup' });
+
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should reject query parameters that are neither metrics parameters nor known filters', async () => {
+    await request(app)
+      .put('/reference/users')
+      .send({ user_metadata: { "u-123": { plan: 'pro', tier: 'gold' } }, ts: new Date().toISOString() });
+
+    // A typo of window must not silently become a filter that matches nothing
+    const typo = await request(app)
+      .get('/metrics')
+      .query({ windwo: 10 });
+
+    expect(typo.status).toBe(400);
+    expect(typo.body).toEqual({
+      error: 'Unknown query parameter',
+      message: 'windwo is not a metrics parameter, type, user_id or a reference attribute',
+    });
+
+    expect((await request(app).get('/metrics').query({ tier: 'gold' })).status).toBe(200);
+    expect((await request(app).get('/metrics').query({ region: 'eu' })).status).toBe(200);
+    expect((await request(app).get('/metrics/timeseries').query({ colour: 'red' })).status).toBe(400);
+  });
+
+  it('should return a zero-filled timeseries over the window', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: { "u-123": { plan: 'pro', region: 'us' } },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now.getTime() - 1000).toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-456', type: 'view', ts: new Date(now.getTime() - 1000).toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    const getResponse = await request(app)
+      .get('/metrics/timeseries')
+      .query({ window: 60, step: 10 });
+
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.body.window_sec).toBe(60);
+    expect(getResponse.body.step_sec).toBe(10);
+
+    const points = getResponse.body.points;
+    expect(points).toHaveLength(6);
+    points.forEach((point: any, i: number) => {
+      expect(Date.parse(point.end) - Date.parse(point.start)).toBe(10000);
+      if (i > 0) {
+        expect(point.start).toBe(points[i - 1].end);
+      }
+    });
+
+    const nonEmpty = points.filter((point: any) => point.count > 0);
+    expect(nonEmpty).toHaveLength(1);
+    expect(nonEmpty[0]).toMatchObject({ count: 2, unique_users: 1, by_plan: { pro: 1, __missing__: 0 } });
+    expect(points.find((point: any) => point.count === 0)).toMatchObject({
+      unique_users: 0,
+      by_plan: { pro: 0, __missing__: 0 },
+      by_region: { us: 0, __missing__: 0 },
+    });
+
+    const invalid = await request(app)
+      .get('/metrics/timeseries')
+      .query({ window: 60, step: 7 });
+
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should report resolution for windows answered from rollups', async () => {
+    const now = new Date();
+
+    await request(app)
+      .post('/events')
+      .send({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: now.toISOString() });
+
+    const recent = await request(app)
+      .get('/metrics')
+      .query({ window: 300 });
+
+    expect(recent.body.resolution_sec).toBe(1);
+
+    const day = await request(app)
+      .get('/metrics')
+      .query({ window: 86400 });
+
+    expect(day.status).toBe(200);
+    expect(day.body.window_sec).toBe(86400);
+    expect(day.body.resolution_sec).toBe(3600);
+    expect(day.body.unknown).toBe(1);
+
+    const tooLong = await request(app)
+      .get('/metrics')
+      .query({ window: 8 * 24 * 3600 });
+
+    expect(tooLong.status).toBe(400);
+  });
+
+  it('should estimate unique users from sketches unless exact counting is requested', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'us' },
+          "u-456": { plan: 'free', region: 'eu' },
+        },
+        ts: now.toISOString(),
+      });
+
+    const events: Event[] = [
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now.getTime() - 2000).toISOString() },
+      { event_id: 'uuid-2', user_id: 'u-123', type: 'click', ts: now.toISOString() },
+      { event_id: 'uuid-3', user_id: 'u-456', type: 'view', ts: now.toISOString() },
+      { event_id: 'uuid-4', user_id: 'u-789', type: 'view', ts: now.toISOString() },
+    ];
+
+    await request(app)
+      .post('/events')
+      .send(events);
+
+    const approximate = await request(app)
+      .get('/metrics')
+      .query({ window: 60 });
+
+    expect(approximate.body.unique_users_exact).toBe(false);
+    expect(approximate.body.unique_users).toBe(2);
+
+    const exact = await request(app)
+      .get('/metrics')
+      .query({ window: 60, exact: 'true' });
+
+    expect(exact.body.unique_users_exact).toBe(true);
+    expect(exact.body.unique_users).toBe(2);
+
+    // Sketches cannot be filtered, so filtered queries count exactly
+    const filtered = await request(app)
+      .get('/metrics')
+      .query({ window: 60, plan: 'pro' });
+
+    expect(filtered.body.unique_users_exact).toBe(true);
+    expect(filtered.body.unique_users).toBe(1);
+  });
+
+  it('should upsert and delete individual users with a patch', async () => {
+    const now = new Date();
+
+    const refResponse = await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'free', region: 'us' },
+          "u-456": { plan: 'free', region: 'eu' },
+        },
+        ts: now.toISOString(),
+      });
+    expect(refResponse.body.version).toBe(1);
+
+    await request(app)
+      .post('/events')
+      .send([
+        { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: now.toISOString() },
+        { event_id: 'uuid-2', user_id: 'u-456', type: 'view', ts: now.toISOString() },
+        { event_id: 'uuid-3', user_id: 'u-789', type: 'view', ts: now.toISOString() },
+      ]);
+
+    const patchResponse = await request(app)
+      .patch('/reference/users')
+      .send({
+        upsert: { "u-123": { plan: 'pro', region: 'us' }, "u-789": { plan: 'free', region: 'us' } },
+        delete: ['u-456'],
+        version: 1,
+        ts: now.toISOString(),
+      });
+
+    expect(patchResponse.status).toBe(200);
+    expect(patchResponse.body).toEqual({ message: 'Reference table patched successfully', version: 2 });
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 60 });
+
+    expect(getResponse.body.unknown).toBe(1);
+    expect(getResponse.body.by_plan).toEqual({ free: 1, pro: 1, __missing__: 0 });
+    expect(getResponse.body.by_region).toEqual({ us: 2, eu: 0, __missing__: 0 });
+  });
+
+  it('should reject a patch made against an older reference table version', async () => {
+    const now = new Date();
+
+    await request(app)
+      .put('/reference/users')
+      .send({ user_metadata: { "u-123": { plan: 'free' } }, ts: now.toISOString() });
+    // A full replace lands between reading version 1 and sending the patch
+    await request(app)
+      .put('/reference/users')
+      .send({ user_metadata: { "u-456": { plan: 'pro' } }, ts: now.toISOString() });
+
+    const patchResponse = await request(app)
+      .patch('/reference/users')
+      .send({ upsert: { "u-123": { plan: 'pro' } }, version: 1, ts: now.toISOString() });
+
+    expect(patchResponse.status).toBe(412);
+    expect(patchResponse.body.current_version).toBe(2);
+    expect([...store.getReferenceTable().keys()]).toEqual(['u-456']);
+
+    const conflicting = await request(app)
+      .patch('/reference/users')
+      .send({ upsert: { "u-123": { plan: 'pro' } }, delete: ['u-123'], version: 2, ts: now.toISOString() });
+
+    expect(conflicting.status).toBe(400);
+  });
+
+  it('should only apply conditional reference updates whose If-Match is the current version', async () => {
+    const ts = new Date().toISOString();
+
+    const first = await request(app)
+      .put('/reference/users')
+      .set('If-Match', '"0"')
+      .send({ user_metadata: { "u-123": { plan: 'free' } }, ts });
+    expect(first.status).toBe(200);
+    expect(first.headers.etag).toBe('"1"');
+
+    // Two writers read version 1 with the same timestamp, the second must not silently overwrite the first
+    const winner = await request(app)
+      .patch('/reference/users')
+      .set('If-Match', first.headers.etag)
+      .send({ upsert: { "u-123": { plan: 'pro' } }, ts });
+    const loser = await request(app)
+      .put('/reference/users')
+      .set('If-Match', first.headers.etag)
+      .send({ user_metadata: { "u-123": { plan: 'team' } }, ts });
+
+    expect(winner.status).toBe(200);
+    expect(winner.headers.etag).toBe('"2"');
+    expect(loser.status).toBe(412);
+    expect(loser.headers.etag).toBe('"2"');
+    expect(loser.body).toMatchObject({ error: 'Precondition failed', current_version: 2 });
+
+    const getResponse = await request(app).get('/reference/users');
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.headers.etag).toBe('"2"');
+    expect(getResponse.body).toEqual({
+      version: 2,
+      ts: new Date(Math.floor(Date.parse(ts) / 1000) * 1000).toISOString(),
+      user_metadata: { "u-123": { plan: 'pro' } },
+    });
+  });
+
+  it('should require a version for patches and reject malformed If-Match headers', async () => {
+    const ts = new Date().toISOString();
+
+    const unconditional = await request(app)
+      .patch('/reference/users')
+      .send({ upsert: { "u-123": { plan: 'pro' } }, ts });
+    expect(unconditional.status).toBe(428);
+
+    const weak = await request(app)
+      .put('/reference/users')
+      .set('If-Match', 'W/"0"')
+      .send({ user_metadata: {}, ts });
+    expect(weak.status).toBe(400);
+  });
+
+  it('should attribute events to the reference generation active at their timestamp with enrichment=event_time', async () => {
+    const now = Date.now();
+
+    await request(app)
+      .put('/reference/users')
+      .send({ user_metadata: { "u-123": { plan: 'free', region: 'us' } }, ts: new Date(now - 20000).toISOString() });
+    await request(app)
+      .post('/events')
+      .send({ event_id: 'uuid-1', user_id: 'u-123', type: 'view', ts: new Date(now - 10000).toISOString() });
+
+    // The user upgrades after their first event
+    await request(app)
+      .put('/reference/users')
+      .send({ user_metadata: { "u-123": { plan: 'pro', region: 'us' } }, ts: new Date(now - 5000).toISOString() });
+    await request(app)
+      .post('/events')
+      .send({ event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts: new Date(now).toISOString() });
+
+    const latest = await request(app)
+      .get('/metrics')
+      .query({ window: 60 });
+    expect(latest.body.enrichment).toBe('latest');
+    expect(latest.body.by_plan).toEqual({ free: 0, pro: 2, __missing__: 0 });
+
+    const eventTime = await request(app)
+      .get('/metrics')
+      .query({ window: 60, enrichment: 'event_time', crosstab: 'type,plan' });
+    expect(eventTime.body.enrichment).toBe('event_time');
+    expect(eventTime.body.unique_users).toBe(1);
+    expect(eventTime.body.by_plan).toEqual({ free: 1, pro: 1, __missing__: 0 });
+    expect(eventTime.body.crosstab.map((row: any) => row.key)).toEqual(
+      expect.arrayContaining([{ type: 'view', plan: 'free' }, { type: 'purchase', plan: 'pro' }]),
+    );
+
+    const tooLong = await request(app)
+      .get('/metrics')
+      .query({ window: 3600, enrichment: 'event_time' });
+    expect(tooLong.status).toBe(400);
+  });
+
+  it('should bulk load the reference table from a CSV or NDJSON upload', async () => {
+    const ts = new Date().toISOString();
+
+    const csvResponse = await request(app)
+      .put('/reference/users')
+      .query({ ts })
+      .set('Content-Type', 'text/csv')
+      .send('user_id,plan,region\nu-123,pro,eu\nu-456,free,us\n');
+
+    expect(csvResponse.status).toBe(200);
+    expect(csvResponse.body.version).toBe(1);
+    expect(store.getReferenceTable().get('u-456')).toEqual({ plan: 'free', region: 'us' });
+
+    // One bad row rejects the whole file, and the current generation stays in place
+    const ndjsonResponse = await request(app)
+      .put('/reference/users')
+      .query({ ts })
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"user_id": "u-789", "plan": "team"}\n{"user_id": "u-790", "seats": 5}\nnot json\n');
+
+    expect(ndjsonResponse.status).toBe(400);
+    expect(ndjsonResponse.body.errors).toEqual([
+      { line: 2, code: 'invalid_type', path: 'seats', message: 'seats must be a string' },
+      { line: 3, code: 'invalid_format', path: '', message: 'invalid JSON' },
+    ]);
+    expect(store.getReferenceVersion()).toBe(1);
+    expect([...store.getReferenceTable().keys()]).toEqual(['u-123', 'u-456']);
+  });
+
+  it('should ingest an NDJSON event stream and return one NDJSON result per event', async () => {
+    const ts = new Date().toISOString();
+    const body = [
+      JSON.stringify({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts }),
+      '',
+      '{"event_id": "uuid-2",',
+      JSON.stringify({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts }),
+      JSON.stringify({ event_id: 'uuid-3', user_id: 'u-456', type: 'view', ts }),
+    ].join('\n');
+
+    const response = await request(app)
+      .post('/events')
+      .set('Content-Type', 'application/x-ndjson')
+      .send(body)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.on('data', (chunk: Buffer) => { text += chunk; });
+        res.on('end', () => callback(null, text));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch('application/x-ndjson');
+    expect(response.body.trim().split('\n').map((line: string) => JSON.parse(line))).toEqual([
+      { event_id: 'uuid-1', status: 'success' },
+      {
+        event_id: 'event_unknown',
+        status: 'error',
+        message: 'Line 3 is not valid JSON',
+        errors: [{ code: 'invalid_format', path: '', message: 'Line 3 is not valid JSON' }],
+      },
+      {
+        event_id: 'uuid-1',
+        status: 'error',
+        message: 'Event uuid-1 already seen',
+        errors: [{ code: 'duplicate', path: 'event_id', message: 'Event uuid-1 already seen' }],
+      },
+      { event_id: 'uuid-3', status: 'success' },
+    ]);
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 60 });
+    expect(getResponse.body.by_type).toEqual({ click: 1, view: 1, purchase: 0 });
+  });
+
+  it('should reject reference attributes that are not strings', async () => {
+    const refResponse = await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: { "u-123": { plan: 'pro', seats: 5 } },
+        ts: new Date().toISOString(),
+      });
+
+    expect(refResponse.status).toBe(400);
+    expect(refResponse.body.errors).toEqual([
+      { code: 'invalid_type', path: 'user_metadata.u-123.seats', message: 'user_metadata.u-123.seats must be a string' },
+    ]);
+  });
+
+  it('should aggregate event values per currency and per group', async () => {
+    const now = new Date().toISOString();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'eu' },
+          "u-456": { plan: 'free', region: 'us' },
+        },
+        ts: now,
+      });
+
+    const postResponse = await request(app)
+      .post('/events')
+      .send([
+        { event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts: now, value: 100, currency: 'USD', properties: { sku: 'pro-annual' } },
+        { event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts: now, value: 20, currency: 'USD' },
+        { event_id: 'uuid-3', user_id: 'u-456', type: 'purchase', ts: now, value: 10, currency: 'USD' },
+        { event_id: 'uuid-4', user_id: 'u-456', type: 'purchase', ts: now, value: 15, currency: 'EUR' },
+        { event_id: 'uuid-5', user_id: 'u-456', type: 'view', ts: now },
+      ]);
+    expect(postResponse.body.results.every((r: any) => r.status === 'success')).toBe(true);
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 60, crosstab: 'plan' });
+
+    expect(getResponse.body.value).toEqual({
+      // Percentiles are estimated within 1%
+      USD: { count: 3, sum: 130, avg: 130 / 3, min: 10, max: 100, p50: expect.closeTo(20, 0), p90: 100, p99: 100 },
+      EUR: { count: 1, sum: 15, avg: 15, min: 15, max: 15, p50: 15, p90: 15, p99: 15 },
+    });
+    expect(getResponse.body.value_by_plan.pro.USD).toMatchObject({ count: 2, sum: 120, avg: 60 });
+    expect(getResponse.body.value_by_plan.free.USD).toMatchObject({ count: 1, sum: 10 });
+    expect(getResponse.body.value_by_plan.__missing__).toEqual({});
+    expect(getResponse.body.crosstab.find((row: any) => row.key.plan === 'free').value.EUR.sum).toBe(15);
+
+    const invalid = await request(app)
+      .post('/events')
+      .send({ event_id: 'uuid-6', user_id: 'u-123', type: 'purchase', ts: now, currency: 'dollars', properties: { tags: ['a'] } });
+    expect(invalid.body.results[0].errors.map((issue: any) => [issue.code, issue.path])).toEqual([
+      ['invalid_format', 'currency'],
+      ['invalid_type', 'properties.tags'],
+    ]);
+  });
+
+  it('should report percentiles of a numeric event property per window and per group', async () => {
+    const now = new Date().toISOString();
+
+    await request(app)
+      .put('/reference/users')
+      .send({
+        user_metadata: {
+          "u-123": { plan: 'pro', region: 'eu' },
+          "u-456": { plan: 'free', region: 'us' },
+        },
+        ts: now,
+      });
+
+    // Page load times: u-123 loads in 101-200ms, u-456 in 1001-1100ms
+    const events = [];
+    for (let i = 1; i <= 100; i++) {
+      events.push({ event_id: `fast-${i}`, user_id: 'u-123', type: 'view', ts: now, properties: { load_time_ms: 100 + i, page: '/home' } });
+      events.push({ event_id: `slow-${i}`, user_id: 'u-456', type: 'view', ts: now, properties: { load_time_ms: 1000 + i } });
+    }
+    events.push({ event_id: 'click-1', user_id: 'u-123', type: 'click', ts: now, properties: { load_time_ms: 'n/a' } });
+    await request(app).post('/events').send(events);
+
+    const getResponse = await request(app)
+      .get('/metrics')
+      .query({ window: 60, percentiles: '50,90,99.9', field: 'properties.load_time_ms' });
+
+    expect(getResponse.status).toBe(200);
+    expect(getResponse.body.field).toBe('properties.load_time_ms');
+    // Percentiles are estimated within 1% of the exact nearest-rank value
+    const expectWithinOnePercent = (estimate: number, exact: number) => {
+      expect(Math.abs(estimate - exact) / exact).toBeLessThanOrEqual(0.01);
+    };
+    const { field_stats: stats, field_stats_by_plan: byPlan } = getResponse.body;
+    expect(stats).toMatchObject({ count: 200, sum: 120100, avg: 600.5, min: 101, max: 1100, 'p99.9': 1100 });
+    expectWithinOnePercent(stats.p50, 200);
+    expectWithinOnePercent(stats.p90, 1080);
+    expect(byPlan.pro).toMatchObject({ count: 100, min: 101, max: 200 });
+    expectWithinOnePercent(byPlan.pro.p50, 150);
+    expect(byPlan.free).toMatchObject({ count: 100, min: 1001, max: 1100 });
+    expectWithinOnePercent(byPlan.free.p90, 1090);
+    expect(byPlan.__missing__).toMatchObject({ count: 0, avg: null, p50: null });
+
+    // Type filters apply to the field too
+    const clicks = await request(app)
+      .get('/metrics')
+      .query({ window: 60, type: 'click', field: 'properties.load_time_ms' });
+    expect(clicks.body.field_stats).toMatchObject({ count: 0, p50: null });
+
+    const invalidField = await request(app).get('/metrics').query({ field: 'load_time_ms' });
+    expect(invalidField.status).toBe(400);
+    // Only properties in SUMMARIZED_PROPERTIES are summarized
+    const unsummarized = await request(app).get('/metrics').query({ field: 'properties.items' });
+    expect(unsummarized.status).toBe(400);
+    expect(unsummarized.body.message).toBe('properties.items is not summarized, add items to SUMMARIZED_PROPERTIES');
+    const invalidPercentiles = await request(app).get('/metrics').query({ percentiles: '50,101' });
+    expect(invalidPercentiles.status).toBe(400);
+  });
+
+  it('should push live metrics to stream subscribers as Server-Sent Events', async () => {
+    const now = new Date().toISOString();
+    await request(app)
+      .post('/events')
+      .send([
+        { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: now },
+        { event_id: 'uuid-2', user_id: 'u-456', type: 'view', ts: now },
+      ]);
+
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    try {
+      // Collects the first two metrics events: the current metrics on subscribe, then the next tick's
+      const { headers, events } = await new Promise<{ headers: http.IncomingHttpHeaders; events: any[] }>((resolve, reject) => {
+        const req = http.get(`http://localhost:${port}/metrics/stream?window=60&type=click`, res => {
+          const events: any[] = [];
+          let buffer = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            buffer += chunk;
+            const messages = buffer.split('\n\n');
+            buffer = messages.pop() as string;
+            for (const message of messages) {
+              const data = message.split('\n').find(line => line.startsWith('data: '));
+              if (data) {
+                events.push(JSON.parse(data.slice('data: '.length)));
+              }
+            }
+            if (events.length >= 2) {
+              req.destroy();
+              resolve({ headers: res.headers, events });
+            }
+          });
+        });
+        req.on('error', reject);
+      });
+
+      expect(headers['content-type']).toContain('text/event-stream');
+      expect(events.map(event => event.by_type)).toEqual([
+        { click: 1, view: 0, purchase: 0 },
+        { click: 1, view: 0, purchase: 0 },
+      ]);
+      expect(events[0].window_sec).toBe(60);
+
+      // Disconnected subscribers are dropped, closing the channel
+      await new Promise(resolve => setTimeout(resolve, 200));
+      const health = await request(app).get('/healthz');
+      expect(health.body.streams).toEqual({ channels: 0, subscribers: 0 });
+
+      const invalid = await request(app).get('/metrics/stream').query({ window: 'abc' });
+      expect(invalid.status).toBe(400);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should create, read, update and delete alert rules', async () => {
+    const rule = {
+      name: 'Low EU purchases',
+      metric: 'count',
+      window_sec: 60,
+      filters: { type: ['purchase'], region: ['eu'] },
+      operator: '<',
+      threshold: 5,
+    };
+
+    const created = await request(app).post('/alerts/rules').send(rule);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ ...rule, for_sec: 0, id: expect.any(String) });
+    const { id } = created.body;
+
+    expect((await request(app).get(`/alerts/rules/${id}`)).body).toEqual(created.body);
+    expect((await request(app).get('/alerts/rules')).body.rules).toEqual([created.body]);
+
+    const updated = await request(app).put(`/alerts/rules/${id}`).send({ ...rule, threshold: 10, for_sec: 30 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ id, threshold: 10, for_sec: 30 });
+
+    const alerts = await request(app).get('/alerts');
+    expect(alerts.body).toEqual({
+      alerts: [{ rule_id: id, rule_name: 'Low EU purchases', state: 'inactive', value: null, since: null, evaluated_at: null }],
+      history: [],
+    });
+
+    expect((await request(app).delete(`/alerts/rules/${id}`)).status).toBe(204);
+    const missing = await request(app).get(`/alerts/rules/${id}`);
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toBe('Not found');
+    expect((await request(app).put(`/alerts/rules/${id}`).send(rule)).status).toBe(404);
+    expect((await request(app).delete(`/alerts/rules/${id}`)).status).toBe(404);
+
+    const invalid = await request(app)
+      .post('/alerts/rules')
+      .send({ name: 'Bad', metric: 'latency', window_sec: 7200, operator: '<', threshold: '5', filters: { type: ['signup'] }, severity: 'high' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((issue: any) => [issue.code, issue.path])).toEqual([
+      ['invalid_enum', 'metric'],
+      ['out_of_range', 'window_sec'],
+      ['invalid_type', 'threshold'],
+      ['invalid_enum', 'filters.type.0'],
+      ['unknown_field', 'severity'],
+    ]);
+  });
+
+  it('should report schema violations of events as codes and field paths', async () => {
+    const now = new Date().toISOString();
+
+    const postResponse = await request(app)
+      .post('/events')
+      .send([
+        { event_id: 'uuid-1', user_id: 'u-123', type: 'signup', ts: now },
+        { event_id: 42, type: 'click', ts: 'yesterday', source: 'web' },
+      ]);
+
+    expect(postResponse.status).toBe(200);
+    const [first, second] = postResponse.body.results;
+    expect(first).toMatchObject({ event_id: 'uuid-1', status: 'error' });
+    expect(first.errors).toEqual([
+      { code: 'invalid_enum', path: 'type', message: 'type must be one of click, view, purchase' },
+    ]);
+    expect(second.event_id).toBe('event_unknown');
+    expect(second.errors.map((issue: any) => [issue.code, issue.path])).toEqual([
+      ['invalid_type', 'event_id'],
+      ['required', 'user_id'],
+      ['invalid_format', 'ts'],
+      ['unknown_field', 'source'],
+    ]);
+  });
+
+  it('should reject reference attributes named after query parameters', async () => {
+    const refResponse = await request(app)
+      .patch('/reference/users')
+      .send({ upsert: { "u-123": { window: '60' } }, delete: ['u-123'], version: 0, ts: 'not a date' });
+
+    expect(refResponse.status).toBe(400);
+    expect(refResponse.body.errors.map((issue: any) => [issue.code, issue.path])).toEqual([
+      ['reserved_name', 'upsert.u-123.window'],
+      ['conflict', 'delete.0'],
+      ['invalid_format', 'ts'],
+    ]);
+  });
+
   it('should handle out-of-order inserts', async () => {
     const now = new Date();
 
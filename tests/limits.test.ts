@@ -0,0 +1,175 @@
+import request from 'supertest';
+import express from 'express';
+import type { Request, Response } from 'express';
+import { Authenticator } from '../src/auth.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { Controllers } from '../src/controllers.js';
+import { RequestLimiter } from '../src/limits.js';
+import { InMemoryStore } from '../src/storage.js';
+
+const createApp = (config: Partial<Config>): express.Application => {
+  const limitConfig: Config = { ...DEFAULT_CONFIG, ...config };
+  const auth = new Authenticator(limitConfig);
+  const limiter = new RequestLimiter(limitConfig);
+  const controllers = new Controllers(new InMemoryStore(limitConfig), limitConfig);
+  const app = express();
+  // Same order as the app's guard: bodies are only parsed once the client is authenticated and rate limited
+  app.post(
+    '/events',
+    limiter.limitUnauthorized(auth.authenticates),
+    auth.require('ingest'),
+    limiter.rateLimit,
+    express.json({ limit: limitConfig.maxBodyBytes }),
+    limiter.handleBodyTooLarge,
+    controllers.ingestEvents,
+  );
+  return app;
+};
+
+describe('RequestLimiter', () => {
+  it('should answer 429 with Retry-After once a client has used its burst', async () => {
+    const app = createApp({ rateLimitPerSec: 1, rateLimitBurst: 2 });
+
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+
+    const limited = await request(app).post('/events').send([]);
+    expect(limited.status).toBe(429);
+    expect(limited.headers['retry-after']).toBe('1');
+    expect(limited.body).toEqual({ error: 'Too Many Requests', message: 'Rate limit of 1 requests per second exceeded' });
+  });
+
+  it('should refill buckets over time', async () => {
+    const app = createApp({ rateLimitPerSec: 5, rateLimitBurst: 1 });
+
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+    expect((await request(app).post('/events').send([])).status).toBe(429);
+
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+  });
+
+  it('should give every API key its own bucket', async () => {
+    const app = createApp({ rateLimitPerSec: 1, rateLimitBurst: 1, apiKeys: { 'key-a': ['ingest'], 'key-b': ['ingest'] } });
+
+    expect((await request(app).post('/events').set('X-Api-Key', 'key-a').send([])).status).toBe(200);
+    expect((await request(app).post('/events').set('X-Api-Key', 'key-a').send([])).status).toBe(429);
+    expect((await request(app).post('/events').set('X-Api-Key', 'key-b').send([])).status).toBe(200);
+  });
+
+  it('should charge requests answered 401 to their IP without locking out valid keys', async () => {
+    const app = createApp({ rateLimitPerSec: 1, rateLimitBurst: 2, apiKeys: { 'key-a': ['ingest'] } });
+
+    expect((await request(app).post('/events').set('X-Api-Key', 'guess-1').send([])).status).toBe(401);
+    expect((await request(app).post('/events').set('X-Api-Key', 'guess-2').send([])).status).toBe(401);
+
+    const limited = await request(app).post('/events').set('X-Api-Key', 'guess-3').send([]);
+    expect(limited.status).toBe(429);
+    expect(limited.headers['retry-after']).toBe('1');
+
+    // The key has a bucket of its own, untouched by the failed attempts from the same IP
+    expect((await request(app).post('/events').set('X-Api-Key', 'key-a').send([])).status).toBe(200);
+  });
+
+  it('should answer unauthenticated requests before reading their bodies', async () => {
+    const app = createApp({ maxBodyBytes: 100, apiKeys: { 'key-a': ['ingest'] } });
+
+    const response = await request(app).post('/events').send([{ event_id: 'x'.repeat(200) }]);
+    expect(response.status).toBe(401);
+  });
+
+  it('should shed ingest requests beyond the concurrency limit until one finishes', async () => {
+    const limiter = new RequestLimiter({ ...DEFAULT_CONFIG, maxConcurrentIngests: 1 });
+    let entered!: () => void;
+    let release!: () => void;
+    const handlerEntered = new Promise<void>(resolve => { entered = resolve; });
+    const released = new Promise<void>(resolve => { release = resolve; });
+
+    let calls = 0;
+    const app = express();
+    app.post('/events', limiter.limitIngestConcurrency, async (_req: Request, res: Response) => {
+      // Only the first request waits, standing in for a long NDJSON stream
+      if (calls++ === 0) {
+        entered();
+        await released;
+      }
+      res.status(200).json({ results: [] });
+    });
+
+    const first = request(app).post('/events').send([]).then(response => response);
+    await handlerEntered;
+
+    const shed = await request(app).post('/events').send([]);
+    expect(shed.status).toBe(429);
+    expect(shed.headers['retry-after']).toBe('1');
+    expect(shed.body.message).toBe('Server is busy with 1 ingest requests, retry shortly');
+
+    release();
+    expect((await first).status).toBe(200);
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+  });
+
+  it('should answer bodies over MAX_BODY_BYTES with 413', async () => {
+    const app = createApp({ maxBodyBytes: 100 });
+
+    const response = await request(app).post('/events').send([{ event_id: 'x'.repeat(200) }]);
+    expect(response.status).toBe(413);
+    expect(response.body).toEqual({ error: 'Body too large', message: 'Request body exceeds the maximum of 100 bytes' });
+  });
+
+  it('should charge NDJSON streams one token per MAX_BATCH_SIZE lines', async () => {
+    const app = createApp({ rateLimitPerSec: 1, rateLimitBurst: 4, maxBatchSize: 2 });
+    const body = ['e-1', 'e-2', 'e-3', 'e-4', 'e-5']
+      .map(id => JSON.stringify({ event_id: id, user_id: 'u-1', type: 'click', ts: new Date().toISOString() }))
+      .join('\n');
+
+    const stream = await request(app).post('/events').set('Content-Type', 'application/x-ndjson').send(body);
+    expect(stream.text.trim().split('\n').map(line => JSON.parse(line).status)).toEqual(Array(5).fill('success'));
+
+    // The request covered the first two lines, and lines 3 and 5 each opened a batch costing one more token
+    expect((await request(app).post('/events').send([])).status).toBe(200);
+    expect((await request(app).post('/events').send([])).status).toBe(429);
+  });
+
+  it('should pause reading an NDJSON stream until the client bucket refills', async () => {
+    const app = createApp({ rateLimitPerSec: 20, rateLimitBurst: 1, maxBatchSize: 1 });
+    const body = ['e-1', 'e-2', 'e-3']
+      .map(id => JSON.stringify({ event_id: id, user_id: 'u-1', type: 'click', ts: new Date().toISOString() }))
+      .join('\n');
+
+    const startMs = Date.now();
+    const stream = await request(app).post('/events').set('Content-Type', 'application/x-ndjson').send(body);
+    expect(stream.status).toBe(200);
+    expect(stream.text.trim().split('\n').map(line => JSON.parse(line).status)).toEqual(['success', 'success', 'success']);
+    // The last two lines waited for a token each, 50ms apart at 20 per second
+    expect(Date.now() - startMs).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should end an NDJSON stream at a line over MAX_BODY_BYTES', async () => {
+    const app = createApp({ maxBodyBytes: 200 });
+    const event = JSON.stringify({ event_id: 'e-1', user_id: 'u-1', type: 'click', ts: new Date().toISOString() });
+    const body = [event, JSON.stringify({ event_id: 'x'.repeat(300) }), event.replace('e-1', 'e-2')].join('\n');
+
+    const stream = await request(app).post('/events').set('Content-Type', 'application/x-ndjson').send(body);
+    const results = stream.text.trim().split('\n').map(line => JSON.parse(line));
+    expect(results).toHaveLength(2);
+    expect(results[0].status).toBe('success');
+    expect(results[1]).toMatchObject({
+      status: 'error',
+      message: 'Line exceeds the maximum of 200 bytes, it and later lines were not ingested',
+    });
+  });
+
+  it('should reject batches over MAX_BATCH_SIZE without ingesting any of them', async () => {
+    const app = createApp({ maxBatchSize: 2 });
+    const events = ['e-1', 'e-2', 'e-3'].map(id => ({ event_id: id, user_id: 'u-1', type: 'click', ts: new Date().toISOString() }));
+
+    const tooLarge = await request(app).post('/events').send(events);
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.message).toBe('Batch of 3 events exceeds the maximum of 2, split it or stream it as NDJSON');
+
+    const accepted = await request(app).post('/events').send(events.slice(0, 2));
+    expect(accepted.body.results.map((result: { status: string }) => result.status)).toEqual(['success', 'success']);
+  });
+});
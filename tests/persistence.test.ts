@@ -0,0 +1,170 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import { FilePersistence } from '../src/persistence.js';
+import type { Event } from '../src/types.js';
+import { MAX_RETENTION_SEC } from '../src/utils.js';
+
+describe('File Persistence', () => {
+  let dataDir: string;
+  let store: InMemoryStore;
+  let persistence: FilePersistence;
+
+  const ingest = (event: Event, now: number) => {
+    store.validateEvent(event, now);
+    store.updateRingBuffer(event, now);
+    store.flush();
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'));
+    store = new InMemoryStore();
+    persistence = new FilePersistence(dataDir);
+    store.attachJournal(persistence);
+  });
+
+  afterEach(() => {
+    persistence.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should recover events, dedup state and reference table from the journal', () => {
+    const now = Math.floor(Date.now() / 1000);
+    store.updateReferenceTable({ "u-123": { plan: 'pro', region: 'us' } }, new Date(now * 1000).toISOString());
+    store.flush();
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+
+    const recovered = new InMemoryStore();
+    expect(new FilePersistence(dataDir).recover(recovered, now)).toBe(2);
+
+    expect(recovered.getLookbackWindow(1, now)[0].userCounts.get('u-123')?.total).toBe(1);
+    expect(recovered.getReferenceTable().get('u-123')).toEqual({ plan: 'pro', region: 'us' });
+    expect(() => {
+      recovered.validateEvent({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+    }).toThrow('Event uuid-1 already seen');
+  });
+
+  it('should recover from a snapshot plus the journal written after it', () => {
+    const now = Math.floor(Date.now() / 1000);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date((now - 2) * 1000).toISOString() }, now);
+    persistence.snapshot(store);
+    ingest({ event_id: 'uuid-2', user_id: 'u-456', type: 'view', ts: new Date(now * 1000).toISOString() }, now);
+
+    const recovered = new InMemoryStore();
+    expect(new FilePersistence(dataDir).recover(recovered, now)).toBe(1);
+
+    const allEvents = recovered.getLookbackWindow(10, now).flatMap(b => b.events);
+    expect(allEvents.map(e => e.event_id)).toEqual(['uuid-1', 'uuid-2']);
+  });
+
+  it('should not double count entries replayed on top of a snapshot that already covers them', () => {
+    const now = Math.floor(Date.now() / 1000);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+    const journal = fs.readFileSync(path.join(dataDir, 'journal.ndjson'), 'utf8');
+    persistence.snapshot(store);
+    // Simulate a crash between writing the snapshot and truncating the journal
+    fs.writeFileSync(path.join(dataDir, 'journal.ndjson'), journal);
+
+    const recovered = new InMemoryStore();
+    new FilePersistence(dataDir).recover(recovered, now);
+
+    expect(recovered.getLookbackWindow(1, now)[0].events).toHaveLength(1);
+  });
+
+  it('should not write buffered entries to the journal until flushed', () => {
+    const now = Math.floor(Date.now() / 1000);
+    for (const eventId of ['uuid-1', 'uuid-2']) {
+      const event = { event_id: eventId, user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() };
+      store.validateEvent(event, now);
+      store.updateRingBuffer(event, now);
+    }
+    const journalPath = path.join(dataDir, 'journal.ndjson');
+    expect(fs.existsSync(journalPath)).toBe(false);
+
+    store.flush();
+    const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).event.event_id)).toEqual(['uuid-1', 'uuid-2']);
+  });
+
+  it('should skip journal entries written before the snapshot was taken', () => {
+    const now = Math.floor(Date.now() / 1000);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date((now - 1) * 1000).toISOString() }, now);
+    persistence.snapshot(store);
+    // A crash between writing the snapshot and truncating the journal leaves entries the snapshot already covers
+    const event = { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date((now - 1) * 1000).toISOString() };
+    fs.writeFileSync(path.join(dataDir, 'journal.ndjson'), JSON.stringify({ op: 'event', event, at: now - 1 }) + '\n');
+
+    // Past the retention the event ID has expired, so only the timestamp keeps it out of the rollups a second time
+    const restartSec = now + MAX_RETENTION_SEC + 60;
+    const recovered = new InMemoryStore();
+    expect(new FilePersistence(dataDir).recover(recovered, restartSec)).toBe(0);
+
+    const [bucket] = recovered.getTieredWindow(2 * 3600, restartSec).buckets;
+    expect(bucket?.userCounts.get('u-123')?.total).toBe(1);
+  });
+
+  it('should replay reference patches in order on top of the full replace they were made against', () => {
+    const ts = new Date().toISOString();
+    store.updateReferenceTable({ "u-123": { plan: 'free' }, "u-456": { plan: 'free' } }, ts);
+    persistence.snapshot(store);
+    store.patchReferenceTable({ upsert: { "u-123": { plan: 'pro' } }, delete: [] }, ts, 1);
+    store.patchReferenceTable({ upsert: {}, delete: ['u-456'] }, ts, 2);
+    store.flush();
+
+    const recovered = new InMemoryStore();
+    expect(new FilePersistence(dataDir).recover(recovered)).toBe(2);
+
+    expect(recovered.getReferenceVersion()).toBe(3);
+    expect(Object.fromEntries(recovered.getReferenceTable())).toEqual({ "u-123": { plan: 'pro' } });
+  });
+
+  it('should drop events that have aged out of the retention window', () => {
+    const now = Math.floor(Date.now() / 1000);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+
+    const restartSec = now + MAX_RETENTION_SEC;
+    const recovered = new InMemoryStore();
+    new FilePersistence(dataDir).recover(recovered, restartSec);
+
+    expect(recovered.getLookbackWindow(MAX_RETENTION_SEC, restartSec)).toHaveLength(0);
+  });
+
+  it('should keep rollups for events that aged out of the ring buffer across a restart', () => {
+    const now = Math.floor(Date.now() / 1000);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+    persistence.snapshot(store);
+
+    const restartSec = now + MAX_RETENTION_SEC + 60;
+    const recovered = new InMemoryStore();
+    new FilePersistence(dataDir).recover(recovered, restartSec);
+
+    const window = recovered.getTieredWindow(2 * 3600, restartSec);
+    expect(window.resolutionSec).toBe(60);
+    expect(window.buckets.flatMap(b => [...b.userCounts.keys()])).toEqual(['u-123']);
+  });
+
+  it('should keep event value and property summaries in rollups across a restart', () => {
+    const config: Config = { ...DEFAULT_CONFIG, summarizedProperties: ['load_time_ms'] };
+    store = new InMemoryStore(config);
+    store.attachJournal(persistence);
+    const now = Math.floor(Date.now() / 1000);
+    const ts = new Date(now * 1000).toISOString();
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts, value: 25, currency: 'USD' }, now);
+    ingest({ event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts, value: 75, currency: 'USD', properties: { load_time_ms: 320 } }, now);
+    persistence.snapshot(store);
+
+    const restartSec = now + MAX_RETENTION_SEC + 60;
+    const recovered = new InMemoryStore(config);
+    new FilePersistence(dataDir).recover(recovered, restartSec);
+
+    const [bucket] = recovered.getTieredWindow(2 * 3600, restartSec).buckets;
+    const summary = bucket?.userCounts.get('u-123')?.values?.get('purchase')?.get('USD');
+    expect(summary).toMatchObject({ count: 2, sum: 100, min: 25, max: 75 });
+    expect(summary?.percentile(100)).toBe(75);
+    const loadTimes = bucket?.userCounts.get('u-123')?.properties?.get('purchase')?.get('load_time_ms');
+    expect(loadTimes).toMatchObject({ count: 1, sum: 320 });
+  });
+});
\ No newline at end of file
@@ -1,12 +1,14 @@
-import { InMemoryStore } from '../src/storage.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Store } from '../src/store.js';
+import { describeEachStore } from './store-backends.js';
 import type { Event } from '../src/types.js';
 import { MAX_RETENTION_SEC } from '../src/utils.js';
 
-describe('Sliding Window Logic', () => {
-  let store: InMemoryStore;
+describeEachStore('Sliding Window Logic', createStore => {
+  let store: Store;
 
   beforeEach(() => {
-    store = new InMemoryStore();
+    store = createStore();
   });
 
   describe('updateRingBuffer', () => {
@@ -50,6 +52,24 @@ describe('Sliding Window Logic', () => {
       expect(lookbackWindow[0].events).toContainEqual(event2);
     });
 
+    it('should keep running per-user and per-type counts for each bucket', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const events: Event[] = [
+        { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() },
+        { event_id: 'uuid-2', user_id: 'u-123', type: 'view', ts: new Date(now * 1000).toISOString() },
+        { event_id: 'uuid-3', user_id: 'u-456', type: 'click', ts: new Date(now * 1000).toISOString() },
+      ];
+
+      events.forEach(event => store.updateRingBuffer(event, now));
+
+      const [bucket] = store.getLookbackWindow(1, now);
+      expect(bucket.userCounts).toEqual(new Map([
+        ['u-123', { total: 2, byType: new Map([['click', 1], ['view', 1]]) }],
+        ['u-456', { total: 1, byType: new Map([['click', 1]]) }],
+      ]));
+      expect(bucket.typeCounts).toEqual(new Map([['click', 2], ['view', 1]]));
+    });
+
     it('should handle out-of-order inserts', () => {
       const now = Math.floor(Date.now() / 1000);
       const event1: Event = {
@@ -172,6 +192,61 @@ describe('Sliding Window Logic', () => {
     });
   });
 
+  describe('event ID deduplication', () => {
+    it('should reject retries of an event within the acceptance window', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const event: Event = {
+        event_id: 'uuid-1',
+        user_id: 'u-123',
+        type: 'click',
+        ts: new Date(now * 1000).toISOString(),
+      };
+
+      store.validateEvent(event, now);
+      store.advanceSlidingWindow(now + 60);
+
+      expect(() => store.validateEvent(event, now + 60)).toThrow('Event uuid-1 already seen');
+    });
+
+    it('should expire event IDs as the sliding window advances past the retention horizon', () => {
+      const now = Math.floor(Date.now() / 1000);
+      store.advanceSlidingWindow(now);
+      store.validateEvent({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+      store.validateEvent({ event_id: 'uuid-2', user_id: 'u-123', type: 'click', ts: new Date((now + 1) * 1000).toISOString() }, now);
+
+      expect(store.getDedupStats()).toMatchObject({ size: 2, oldest_sec: now, expired_total: 0 });
+
+      store.advanceSlidingWindow(now + MAX_RETENTION_SEC);
+      expect(store.getDedupStats()).toMatchObject({ size: 1, oldest_sec: now + 1, expired_total: 1 });
+
+      store.advanceSlidingWindow(now + MAX_RETENTION_SEC + 1);
+      expect(store.getDedupStats()).toMatchObject({ size: 0, oldest_sec: null, expired_total: 2 });
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should count per-bucket aggregates and rollups in the estimated memory', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const event: Event = {
+        event_id: 'uuid-1',
+        user_id: 'u-123',
+        type: 'view',
+        ts: new Date(now * 1000).toISOString(),
+        properties: { load_time_ms: 180 },
+      };
+      const summarizing = createStore({ ...DEFAULT_CONFIG, summarizedProperties: ['load_time_ms'] });
+      for (const target of [store, summarizing]) {
+        target.validateEvent(event, now);
+        target.updateRingBuffer(event, now);
+      }
+
+      // The minute and hour rollup slots each hold a 4KB unique users sketch
+      expect(store.getUsage().estimated_bytes).toBeGreaterThan(2 * 4096);
+      // Summarizing the property adds a summary per bucket on top
+      expect(summarizing.getUsage().estimated_bytes).toBeGreaterThan(store.getUsage().estimated_bytes);
+    });
+  });
+
   describe('getLookbackWindow', () => {
     it('should return empty window when no events exist', () => {
       const now = Math.floor(Date.now() / 1000);
@@ -244,5 +319,66 @@ describe('Sliding Window Logic', () => {
       expect(allEvents).not.toContainEqual(event1);
     });
   });
-});
 
+  describe('getTieredWindow', () => {
+    // Hour aligned so rollup slots line up with window starts
+    const base = Math.floor(Date.now() / 1000 / 3600) * 3600 - 24 * 3600;
+
+    const ingestEvery = (intervalSec: number, count: number) => {
+      for (let i = 0; i < count; i++) {
+        const sec = base + i * intervalSec;
+        store.updateRingBuffer({
+          event_id: `uuid-${i}`,
+          user_id: `u-${i % 3}`,
+          type: 'click',
+          ts: new Date(sec * 1000).toISOString(),
+        }, sec);
+      }
+      return base + (count - 1) * intervalSec;
+    };
+
+    const countEvents = (buckets: { typeCounts: Map<string, number> }[]) =>
+      buckets.reduce((total, bucket) => total + (bucket.typeCounts.get('click') ?? 0), 0);
+
+    it('should answer windows within retention from the 1s ring buffer', () => {
+      const end = ingestEvery(60, 10);
+      const window = store.getTieredWindow(600, end);
+
+      expect(window.resolutionSec).toBe(1);
+      expect(window.startSec).toBe(end - 599);
+      expect(countEvents(window.buckets)).toBe(10);
+    });
+
+    it('should combine the ring buffer with minute rollups without double counting', () => {
+      const end = ingestEvery(600, 19); // one event every 10 minutes for 3 hours
+      const window = store.getTieredWindow(3 * 3600 + 1, end);
+
+      expect(window.resolutionSec).toBe(60);
+      expect(window.startSec).toBe(base);
+      expect(countEvents(window.buckets)).toBe(19);
+    });
+
+    it('should fall back to hour rollups for a day long window', () => {
+      const end = ingestEvery(1800, 48); // one event every 30 minutes for a day
+      const window = store.getTieredWindow(end - base + 1, end);
+
+      expect(window.resolutionSec).toBe(3600);
+      expect(window.startSec).toBe(base);
+      expect(countEvents(window.buckets)).toBe(48);
+    });
+
+    it('should widen the covered period when a coarse slot straddles the window start', () => {
+      const end = ingestEvery(1800, 48);
+      const window = store.getTieredWindow(24 * 3600, end);
+
+      expect(window.startSec).toBe(base - 3600);
+      expect(countEvents(window.buckets)).toBe(48);
+    });
+
+    it('should throw error when window exceeds the longest rollup retention', () => {
+      expect(() => {
+        store.getTieredWindow(store.getMaxLookbackSec() + 1, base);
+      }).toThrow(`Window parameter exceeds maximum lookback window of ${store.getMaxLookbackSec()}s`);
+    });
+  });
+});
\ No newline at end of file
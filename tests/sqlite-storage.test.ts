@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { SqliteStore, isSqliteAvailable } from '../src/sqlite-storage.js';
+import type { Event } from '../src/types.js';
+import { MAX_RETENTION_SEC } from '../src/utils.js';
+
+(isSqliteAvailable() ? describe : describe.skip)('SqliteStore', () => {
+  let dataDir: string;
+  let config: Config;
+  let store: SqliteStore;
+
+  const ingest = (event: Event, now: number) => {
+    store.validateEvent(event, now);
+    store.updateRingBuffer(event, now);
+  };
+
+  const reopen = (): SqliteStore => {
+    store.close();
+    store = new SqliteStore(config);
+    return store;
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'));
+    config = { ...DEFAULT_CONFIG, storageBackend: 'sqlite', sqlitePath: path.join(dataDir, 'nested', 'analytics.sqlite') };
+    store = new SqliteStore(config);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep events, dedup state and reference generations across a reopen', () => {
+    const now = Math.floor(Date.now() / 1000);
+    store.updateReferenceTable({ 'u-123': { plan: 'free' } }, new Date((now - 10) * 1000).toISOString());
+    store.patchReferenceTable({ upsert: { 'u-123': { plan: 'pro' }, 'u-456': { plan: 'free' } }, delete: [] }, new Date(now * 1000).toISOString(), 1);
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts: new Date(now * 1000).toISOString(), value: 20 }, now);
+
+    const reopened = reopen();
+    expect(reopened.getLookbackWindow(1, now)[0]?.events).toEqual([
+      { event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts: new Date(now * 1000).toISOString(), value: 20 },
+    ]);
+    expect(() => {
+      reopened.validateEvent({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+    }).toThrow('Event uuid-1 already seen');
+
+    expect(reopened.getReferenceVersion()).toBe(2);
+    expect(reopened.getReferenceTimestamp()).toBe(now);
+    expect(Object.fromEntries(reopened.getReferenceTable())).toEqual({ 'u-123': { plan: 'pro' }, 'u-456': { plan: 'free' } });
+    expect(Object.fromEntries(reopened.getReferenceTableAt(now - 5))).toEqual({ 'u-123': { plan: 'free' } });
+    expect(reopened.getReferenceAttributeValues()).toEqual(new Map([['plan', new Set(['free', 'pro'])]]));
+  });
+
+  it('should only persist an event ID together with its event', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const event: Event = { event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() };
+    // Stands in for a crash between validating the event and storing it
+    store.validateEvent(event, now);
+    expect(() => store.validateEvent(event, now)).toThrow('Event uuid-1 already seen');
+
+    const reopened = reopen();
+    ingest(event, now);
+    expect(reopened.getLookbackWindow(1, now)[0]?.events).toEqual([event]);
+    expect(reopened.getDedupStats()).toMatchObject({ size: 1, oldest_sec: now });
+  });
+
+  it('should answer lookbacks past the event retention from rollups kept across a reopen', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const ts = new Date(now * 1000).toISOString();
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts, value: 25, currency: 'USD' }, now);
+    ingest({ event_id: 'uuid-2', user_id: 'u-123', type: 'purchase', ts, value: 75, currency: 'USD' }, now);
+    ingest({ event_id: 'uuid-3', user_id: 'u-456', type: 'click', ts }, now);
+
+    // Events are only kept for the ring buffer retention
+    const laterSec = now + MAX_RETENTION_SEC + 60;
+    store.advanceSlidingWindow(laterSec);
+    expect(store.getUsage().events).toBe(0);
+
+    const reopened = reopen();
+    const window = reopened.getTieredWindow(2 * 3600, laterSec);
+    expect(window.resolutionSec).toBe(60);
+    const [bucket] = window.buckets;
+    expect(bucket?.typeCounts).toEqual(new Map([['purchase', 2], ['click', 1]]));
+    expect(bucket?.userCounts.get('u-123')?.values?.get('purchase')?.get('USD')).toMatchObject({ count: 2, sum: 100 });
+  });
+
+  it('should drop reference generations and events once no lookback can reach them', () => {
+    const now = Math.floor(Date.now() / 1000);
+    store.updateReferenceTable({ 'u-123': { plan: 'free' } }, new Date(now * 1000).toISOString());
+    ingest({ event_id: 'uuid-1', user_id: 'u-123', type: 'click', ts: new Date(now * 1000).toISOString() }, now);
+    store.updateReferenceTable({ 'u-123': { plan: 'pro' } }, new Date((now + 1) * 1000).toISOString());
+
+    // The free generation is no longer needed once the window has moved past the swap
+    store.advanceSlidingWindow(now + MAX_RETENTION_SEC + 1);
+    const reopened = reopen();
+    expect(Object.fromEntries(reopened.getReferenceTableAt(now))).toEqual({ 'u-123': { plan: 'pro' } });
+
+    reopened.advanceSlidingWindow(now + MAX_RETENTION_SEC + 1);
+    reopened.advanceSlidingWindow(now + config.hourRollupRetentionSec + 3600);
+    expect(reopened.getTieredWindow(reopened.getMaxLookbackSec(), now + config.hourRollupRetentionSec).buckets).toEqual([]);
+  });
+});
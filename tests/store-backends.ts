@@ -0,0 +1,18 @@
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import { SqliteStore, isSqliteAvailable } from '../src/sqlite-storage.js';
+import type { Store } from '../src/store.js';
+
+export type CreateStore = (config?: Config) => Store;
+
+/**
+ * Runs a suite once per storage backend, so every backend is held to the same behaviour.
+ * The sqlite backend uses an in-memory database and is skipped on Node.js versions without node:sqlite
+ */
+export const describeEachStore = (name: string, suite: (createStore: CreateStore) => void): void => {
+  describe(`${name} (InMemoryStore)`, () => suite(config => new InMemoryStore(config)));
+  (isSqliteAvailable() ? describe : describe.skip)(`${name} (SqliteStore)`, () => {
+    suite((config = DEFAULT_CONFIG) => new SqliteStore({ ...config, sqlitePath: ':memory:' }));
+  });
+}
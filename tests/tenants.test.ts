@@ -0,0 +1,173 @@
+import request from 'supertest';
+import express from 'express';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import type { Config } from '../src/config.js';
+import { InMemoryStore } from '../src/storage.js';
+import { TenantRegistry, tenantDataDir, tenantSqlitePath } from '../src/tenants.js';
+import type { TenantUsage } from '../src/tenants.js';
+import type { Event } from '../src/types.js';
+
+const createApp = (config: Partial<Config> = {}): express.Application => {
+  const tenantConfig: Config = { ...DEFAULT_CONFIG, ...config };
+  const tenants = new TenantRegistry(() => new InMemoryStore(tenantConfig), tenantConfig);
+  const app = express();
+  app.use(express.json());
+  app.post('/events', tenants.handle(controllers => controllers.ingestEvents));
+  app.put('/reference/users', tenants.handle(controllers => controllers.updateReference));
+  app.get('/reference/users', tenants.handle(controllers => controllers.getReference));
+  app.get('/metrics', tenants.handle(controllers => controllers.getMetrics));
+  app.get('/admin/tenants', tenants.listTenants);
+  return app;
+};
+
+const makeEvent = (id: string, properties: Event['properties'] = {}): Event => ({
+  event_id: id,
+  ts: new Date(Date.now() - 1000).toISOString(),
+  user_id: 'u-1',
+  type: 'click',
+  properties,
+});
+
+describe('TenantRegistry', () => {
+  let consoleLog: typeof console.log;
+
+  beforeEach(() => {
+    consoleLog = console.log;
+    console.log = () => {};
+  });
+
+  afterEach(() => {
+    console.log = consoleLog;
+  });
+
+  it('should keep events, dedup and reference tables apart per tenant', async () => {
+    const app = createApp();
+
+    await request(app).post('/events').set('X-Tenant-Id', 'acme').send([makeEvent('e-1'), makeEvent('e-2')]);
+    await request(app).put('/reference/users').set('X-Tenant-Id', 'acme')
+      .send({ user_metadata: { 'u-1': { plan: 'pro', region: 'us' } }, ts: new Date().toISOString() });
+
+    // The same event ID is not a duplicate in another tenant
+    const other = await request(app).post('/events').set('X-Tenant-Id', 'globex').send([makeEvent('e-1')]);
+    expect(other.body.results[0].status).toBe('success');
+
+    const acmeMetrics = await request(app).get('/metrics?window=10').set('X-Tenant-Id', 'acme');
+    const globexMetrics = await request(app).get('/metrics?window=10').set('X-Tenant-Id', 'globex');
+    const defaultMetrics = await request(app).get('/metrics?window=10');
+    expect(acmeMetrics.body.events_per_sec).toBe(2 / 10);
+    expect(globexMetrics.body.events_per_sec).toBe(1 / 10);
+    expect(defaultMetrics.body.events_per_sec).toBe(0);
+
+    const acmeReference = await request(app).get('/reference/users').set('X-Tenant-Id', 'acme');
+    const globexReference = await request(app).get('/reference/users').set('X-Tenant-Id', 'globex');
+    expect(acmeReference.body.version).toBe(1);
+    expect(globexReference.body.version).toBe(0);
+  });
+
+  it('should map API keys to tenants and reject requests that do not match them', async () => {
+    const app = createApp({ tenantApiKeys: { 'key-acme': 'acme', 'key-globex': 'globex' } });
+
+    await request(app).post('/events').set('X-Api-Key', 'key-acme').send([makeEvent('e-1')]);
+    const metrics = await request(app).get('/metrics?window=10').set('X-Api-Key', 'key-acme').set('X-Tenant-Id', 'acme');
+    expect(metrics.status).toBe(200);
+    expect(metrics.body.events_per_sec).toBe(1 / 10);
+
+    const unknownKey = await request(app).get('/metrics').set('X-Api-Key', 'key-initech');
+    expect(unknownKey.status).toBe(401);
+    expect(unknownKey.body).toEqual({ error: 'Unauthorized', message: 'Unknown API key' });
+
+    const wrongTenant = await request(app).get('/metrics').set('X-Api-Key', 'key-acme').set('X-Tenant-Id', 'globex');
+    expect(wrongTenant.status).toBe(403);
+    expect(wrongTenant.body).toEqual({ error: 'Forbidden', message: 'Credentials do not belong to tenant globex' });
+
+    const withoutKey = await request(app).get('/metrics').set('X-Tenant-Id', 'acme');
+    expect(withoutKey.status).toBe(401);
+    expect(withoutKey.body.message).toBe('Tenant acme requires an API key');
+
+    const invalidId = await request(app).get('/metrics').set('X-Tenant-Id', '../etc');
+    expect(invalidId.status).toBe(400);
+    expect(invalidId.body.error).toBe('Invalid X-Tenant-Id header');
+  });
+
+  it('should refuse to create tenants beyond MAX_TENANTS', async () => {
+    const app = createApp({ maxTenants: 2 });
+
+    expect((await request(app).get('/metrics').set('X-Tenant-Id', 'acme')).status).toBe(200);
+    expect((await request(app).get('/metrics')).status).toBe(200);
+
+    const third = await request(app).get('/metrics').set('X-Tenant-Id', 'globex');
+    expect(third.status).toBe(403);
+    expect(third.body.message).toBe('Tenant limit of 2 reached, globex cannot be created');
+
+    // Existing tenants are still served
+    expect((await request(app).get('/metrics').set('X-Tenant-Id', 'acme')).status).toBe(200);
+  });
+
+  it('should reject events beyond the events per second quota and count the rejections', async () => {
+    const app = createApp({ tenantEventsPerSec: 2 });
+    const events = Array.from({ length: 5 }, (_, i) => makeEvent(`e-${i}`));
+
+    const response = await request(app).post('/events').set('X-Tenant-Id', 'acme').send(events);
+    const rejected = response.body.results.filter((result: { status: string }) => result.status === 'error');
+    // A second boundary can fall within the batch and admit up to 2 more
+    expect(rejected.length).toBeGreaterThanOrEqual(1);
+    expect(rejected[0].message).toBe('Tenant acme is over its quota of 2 events per second');
+
+    // Other tenants have their own quota
+    const other = await request(app).post('/events').set('X-Tenant-Id', 'globex').send([makeEvent('e-0')]);
+    expect(other.body.results[0].status).toBe('success');
+
+    const admin = await request(app).get('/admin/tenants');
+    const acme = admin.body.tenants.find((tenant: TenantUsage) => tenant.tenant_id === 'acme');
+    expect(acme.quota_rejections).toEqual({ events_per_sec: rejected.length, memory: 0 });
+    expect(acme.quota.events_per_sec).toBe(2);
+  });
+
+  it('should reject events once the tenant holds more than its memory quota', async () => {
+    const app = createApp({ tenantMaxMemoryMb: 1 });
+    // Each event is estimated at about 160KB, so the seventh is over 1MB
+    const payload = 'x'.repeat(80_000);
+
+    const statuses: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      const response = await request(app).post('/events').set('X-Tenant-Id', 'acme').send([makeEvent(`e-${i}`, { payload })]);
+      statuses.push(response.body.results[0].status);
+    }
+    expect(statuses).toEqual(['success', 'success', 'success', 'success', 'success', 'success', 'success', 'error']);
+
+    const admin = await request(app).get('/admin/tenants');
+    const [acme] = admin.body.tenants;
+    expect(acme.usage.events).toBe(7);
+    expect(acme.usage.estimated_bytes).toBeGreaterThan(1024 * 1024);
+    expect(acme.quota_rejections).toEqual({ events_per_sec: 0, memory: 1 });
+  });
+
+  it('should list tenants with their usage', async () => {
+    const app = createApp();
+
+    await request(app).post('/events').set('X-Tenant-Id', 'globex').send([makeEvent('e-1')]);
+    await request(app).put('/reference/users').set('X-Tenant-Id', 'acme')
+      .send({ user_metadata: { 'u-1': { plan: 'pro' }, 'u-2': { plan: 'free' } }, ts: new Date().toISOString() });
+
+    const response = await request(app).get('/admin/tenants');
+    expect(response.status).toBe(200);
+    expect(response.body.tenants.map((tenant: TenantUsage) => tenant.tenant_id)).toEqual(['acme', 'globex']);
+
+    const [acme, globex] = response.body.tenants;
+    expect(acme.usage).toMatchObject({ events: 0, reference_users: 2 });
+    expect(globex.usage).toMatchObject({ events: 1, reference_users: 0 });
+    expect(globex.usage.estimated_bytes).toBeGreaterThan(0);
+    expect(globex.quota).toEqual({ events_per_sec: null, max_memory_bytes: null });
+    expect(new Date(globex.created_at).getTime()).not.toBeNaN();
+  });
+});
+
+describe('tenant storage locations', () => {
+  it('should keep the configured location for the default tenant and derive one per other tenant', () => {
+    expect(tenantSqlitePath('data/analytics.sqlite', 'default')).toBe('data/analytics.sqlite');
+    expect(tenantSqlitePath('data/analytics.sqlite', 'acme')).toBe('data/analytics.acme.sqlite');
+    expect(tenantSqlitePath(':memory:', 'acme')).toBe(':memory:');
+    expect(tenantDataDir('/var/lib/events', 'default')).toBe('/var/lib/events');
+    expect(tenantDataDir('/var/lib/events', 'acme')).toBe('/var/lib/events/tenants/acme');
+  });
+});
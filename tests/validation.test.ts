@@ -0,0 +1,35 @@
+import { validateEventSchema, validateTimestamp, validateUserMetadata } from '../src/validation.js';
+
+describe('Validation', () => {
+  describe('validateTimestamp', () => {
+    it('should only accept ISO-8601 timestamps with an offset', () => {
+      expect(validateTimestamp('2025-10-08T12:34:56.789Z', 'ts')).toEqual([]);
+      expect(validateTimestamp('2025-10-08T12:34:56+02:00', 'ts')).toEqual([]);
+
+      for (const ts of ['2025-10-08', 'Oct 8 2025 12:34:56', '2025-10-08T12:34:56', '2025-13-40T99:00:00Z', 1759926896]) {
+        expect(validateTimestamp(ts, 'ts')).toEqual([expect.objectContaining({ code: 'invalid_format', path: 'ts' })]);
+      }
+      expect(validateTimestamp(undefined, 'ts')).toEqual([expect.objectContaining({ code: 'required', path: 'ts' })]);
+    });
+  });
+
+  describe('validateEventSchema', () => {
+    it('should accept a well formed event', () => {
+      expect(validateEventSchema({ event_id: 'uuid-1', user_id: 'u-123', type: 'purchase', ts: '2025-10-08T12:34:56.789Z' })).toEqual([]);
+    });
+
+    it('should reject payloads that are not objects', () => {
+      expect(validateEventSchema(['uuid-1'])).toEqual([{ code: 'invalid_type', path: '', message: 'Event must be an object' }]);
+    });
+  });
+
+  describe('validateUserMetadata', () => {
+    it('should report every invalid attribute with its path', () => {
+      expect(validateUserMetadata({ "u-123": { plan: 'pro', seats: 5, type: 'b2b' }, "u-456": 'pro' }, 'user_metadata')).toEqual([
+        { code: 'invalid_type', path: 'user_metadata.u-123.seats', message: 'user_metadata.u-123.seats must be a string' },
+        { code: 'reserved_name', path: 'user_metadata.u-123.type', message: 'type is a reserved name and cannot be used as an attribute' },
+        { code: 'invalid_type', path: 'user_metadata.u-456', message: 'user_metadata.u-456 must be an object of string attributes' },
+      ]);
+    });
+  });
+});
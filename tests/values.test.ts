@@ -0,0 +1,57 @@
+import { ValueSummary } from '../src/values.js';
+
+const summaryOf = (values: number[]): ValueSummary => {
+  const summary = new ValueSummary();
+  values.forEach(value => summary.add(value));
+  return summary;
+};
+
+describe('ValueSummary', () => {
+  it('should track count, sum, min, max and percentiles within 1%', () => {
+    const summary = new ValueSummary();
+    for (let value = 1; value <= 100; value++) {
+      summary.add(value);
+    }
+
+    expect(summary.count).toBe(100);
+    expect(summary.sum).toBe(5050);
+    expect(summary.min).toBe(1);
+    expect(summary.max).toBe(100);
+    expect(summary.percentile(50)).toBeCloseTo(50, 0);
+    expect(summary.percentile(99)).toBeCloseTo(99, 0);
+    expect(summary.percentile(100)).toBe(100);
+    expect(summary.percentile(0)).toBe(1);
+    expect(new ValueSummary().percentile(50)).toBeNull();
+  });
+
+  it('should merge into the same summary as adding every value to one', () => {
+    const left = summaryOf([5, 1, 9]);
+    const right = summaryOf([3, 7]);
+    left.merge(right);
+
+    expect(left).toMatchObject({ count: 5, sum: 25, min: 1, max: 9 });
+    expect(left.percentile(50)).toBeCloseTo(5, 1);
+    expect(left.serialize()).toEqual(summaryOf([1, 3, 5, 7, 9]).serialize());
+  });
+
+  it('should restore from serialized form', () => {
+    const summary = summaryOf([120, 180, 950]);
+    const restored = ValueSummary.restore(JSON.parse(JSON.stringify(summary.serialize())));
+
+    expect(restored).toMatchObject({ count: 3, sum: 1250, min: 120, max: 950 });
+    expect(restored.percentile(50)).toBe(summary.percentile(50));
+  });
+
+  it('should answer one or two values exactly without allocating a sketch', () => {
+    const pair = summaryOf([40, 10]);
+    expect(pair.serialize()).toEqual({ count: 2, sum: 50, min: 10, max: 40 });
+    expect(pair.percentile(50)).toBe(10);
+    expect(pair.percentile(90)).toBe(40);
+
+    // The sketch starts from the values min and max stand for
+    const single = summaryOf([25]);
+    single.merge(pair);
+    expect(single.serialize()).toEqual(summaryOf([10, 25, 40]).serialize());
+    expect(single.percentile(50)).toBeCloseTo(25, 0);
+  });
+});